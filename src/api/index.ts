@@ -1,37 +1,21 @@
-export const getArticlesFromWikipedia = async (titles: string[]): Promise<Map<string, string>> => {
-    const endpoint = 'https://ru.wikipedia.org/w/api.php';
-
-    const articlesMap = new Map<string, string>();
-
-    const promises = titles.map((article) => {
-        const params = {
-            action: 'query',
-            prop: 'extracts',
-            explaintext: '', // можно оставить
-            format: 'json',
-            origin: '*',
-            titles: article
-        };
-
-        const url = new URL(endpoint);
-        Object.keys(params).forEach(key => url.searchParams.append(key, (params as any)[key]));
-
-        return fetch(url.toString()).then((response) => response.json());
-    })
-
-
-    const datas = await Promise.all(promises)
-
-    for (const item of datas) {
-        if (item.query && item.query.pages) {
-            for (const pageId in item.query.pages) {
-                const page = item.query.pages[pageId];
-                if (page.title && page.extract) {
-                    articlesMap.set(page.title, page.extract);
-                }
-            }
-        }
+import {IndexedDBResponseCache, WikipediaClient} from "./wikipedia";
+
+export * from "./wikipedia";
+
+/**
+ * Тексты статей {language}.wikipedia.org по заголовкам (ключ — итоговый заголовок после перенаправлений).
+ * Ответы кэшируются в IndexedDB, поэтому повторная загрузка того же корпуса не требует сети.
+ */
+export const getArticlesFromWikipedia = async (titles: string[], language: string = 'ru'): Promise<Map<string, string>> => {
+    const client = new WikipediaClient({
+        endpoint: `https://${language}.wikipedia.org/w/api.php`,
+        cache: new IndexedDBResponseCache(),
+    });
+    const {extracts, missing} = await client.getArticles(titles);
+
+    if (missing.length) {
+        console.warn('Wikipedia articles not found:', missing);
     }
 
-    return articlesMap;
-};
\ No newline at end of file
+    return extracts;
+};
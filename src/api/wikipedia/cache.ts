@@ -0,0 +1,48 @@
+import {ModelCache} from "../../models/cache/index.ts";
+
+/**
+ * Кэш ответов API по ключу запроса.
+ */
+export interface IResponseCache {
+    get(key: string): Promise<unknown | undefined>;
+    set(key: string, value: unknown): Promise<void>;
+}
+
+/**
+ * Кэш в памяти: живет до перезагрузки страницы, удобен в тестах.
+ */
+export class MemoryResponseCache implements IResponseCache {
+    private entries = new Map<string, unknown>();
+
+    public async get(key: string): Promise<unknown | undefined> {
+        return this.entries.get(key);
+    }
+
+    public async set(key: string, value: unknown): Promise<void> {
+        this.entries.set(key, value);
+    }
+}
+
+/**
+ * Кэш в IndexedDB: ответы хранятся между сессиями, корпус можно собрать один раз и дальше работать офлайн.
+ * Без IndexedDB ведет себя как всегда пустой.
+ */
+export class IndexedDBResponseCache implements IResponseCache {
+    private readonly store: ModelCache;
+    private readonly encoder = new TextEncoder();
+    private readonly decoder = new TextDecoder();
+
+    constructor(dbName: string = 'wikipedia-responses') {
+        this.store = new ModelCache(dbName);
+    }
+
+    public async get(key: string): Promise<unknown | undefined> {
+        const buffer = await this.store.get(key);
+        return buffer === undefined ? undefined : JSON.parse(this.decoder.decode(buffer));
+    }
+
+    public async set(key: string, value: unknown): Promise<void> {
+        const bytes = this.encoder.encode(JSON.stringify(value));
+        await this.store.set(key, bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+    }
+}
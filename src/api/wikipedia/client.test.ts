@@ -0,0 +1,170 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {WikipediaApiError, WikipediaClient} from "./client.ts";
+import {MemoryResponseCache} from "./cache.ts";
+
+type Handler = (params: URLSearchParams, call: number) => Response;
+
+const json = (body: unknown, init: ResponseInit = {}): Response =>
+    new Response(JSON.stringify(body), {status: 200, headers: {'Content-Type': 'application/json'}, ...init});
+
+/**
+ * Подменный fetch: отвечает handler'ом и запоминает параметры каждого запроса.
+ */
+const mockFetch = (handler: Handler) => {
+    const requests: URLSearchParams[] = [];
+    const fetch = vi.fn(async (input: RequestInfo | URL) => {
+        const params = new URL(String(input)).searchParams;
+        requests.push(params);
+        return handler(params, requests.length);
+    });
+    return {fetch: fetch as unknown as typeof globalThis.fetch, requests};
+};
+
+const pages = (titles: string[]) => titles.map(title => ({title, extract: `Текст: ${title}`}));
+
+describe('WikipediaClient', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('запрашивает заголовки пачками', async () => {
+        const {fetch, requests} = mockFetch(params => json({query: {pages: pages(params.get('titles')!.split('|'))}}));
+        const client = new WikipediaClient({fetch, batchSize: 2, minRequestInterval: 0});
+
+        const {extracts, missing} = await client.getArticles(['А', 'Б', 'В', 'Г', 'Д']);
+
+        expect(requests.map(_ => _.get('titles'))).toEqual(['А|Б', 'В|Г', 'Д']);
+        expect([...extracts.keys()]).toEqual(['А', 'Б', 'В', 'Г', 'Д']);
+        expect(missing).toEqual([]);
+    });
+
+    it('дозапрашивает продолжения и склеивает части статьи', async () => {
+        const {fetch, requests} = mockFetch((params) => {
+            if (!params.has('excontinue')) {
+                return json({
+                    continue: {excontinue: 1, continue: '||'},
+                    query: {pages: [{title: 'А', extract: 'Начало. '}, {title: 'Б'}]},
+                });
+            }
+            return json({query: {pages: [{title: 'А', extract: 'Конец.'}, {title: 'Б', extract: 'Статья Б.'}]}});
+        });
+        const client = new WikipediaClient({fetch, minRequestInterval: 0});
+
+        const {extracts} = await client.getArticles(['А', 'Б']);
+
+        expect(requests).toHaveLength(2);
+        expect(requests[1].get('excontinue')).toBe('1');
+        expect(extracts.get('А')).toBe('Начало. Конец.');
+        expect(extracts.get('Б')).toBe('Статья Б.');
+    });
+
+    it('разрешает нормализацию и перенаправления, отмечает отсутствующие статьи', async () => {
+        const {fetch, requests} = mockFetch(() => json({
+            query: {
+                normalized: [{from: 'париж', to: 'Париж'}],
+                redirects: [{from: 'Париж', to: 'Париж (город)'}],
+                pages: [{title: 'Париж (город)', extract: 'Столица Франции.'}, {title: 'Нет такой', missing: true}],
+            },
+        }));
+        const client = new WikipediaClient({fetch, minRequestInterval: 0});
+
+        const {extracts, redirects, missing} = await client.getArticles(['париж', 'Нет такой']);
+
+        expect(requests[0].get('redirects')).toBe('1');
+        expect(redirects.get('париж')).toBe('Париж (город)');
+        expect(extracts.get('Париж (город)')).toBe('Столица Франции.');
+        expect(missing).toEqual(['Нет такой']);
+    });
+
+    it('ждет Retry-After перед повтором после 429', async () => {
+        vi.useFakeTimers();
+        const {fetch, requests} = mockFetch((_, call) => call === 1
+            ? new Response('', {status: 429, headers: {'Retry-After': '2'}})
+            : json({query: {pages: pages(['А'])}}));
+        const client = new WikipediaClient({fetch, retryDelay: 10, minRequestInterval: 0});
+
+        const result = client.getArticles(['А']);
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(requests).toHaveLength(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect((await result).extracts.has('А')).toBe(true);
+        expect(requests).toHaveLength(2);
+    });
+
+    it('повторяет 5xx и maxlag с экспоненциальной задержкой', async () => {
+        vi.useFakeTimers();
+        const {fetch, requests} = mockFetch((_, call) => {
+            if (call === 1) return new Response('', {status: 503});
+            if (call === 2) return json({error: {code: 'maxlag', info: 'Waiting for replicas'}});
+            return json({query: {pages: pages(['А'])}});
+        });
+        const client = new WikipediaClient({fetch, retryDelay: 100, minRequestInterval: 0});
+
+        const result = client.getArticles(['А']);
+        await vi.advanceTimersByTimeAsync(99);
+        expect(requests).toHaveLength(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(requests).toHaveLength(2);
+
+        // Вторая задержка вдвое больше первой
+        await vi.advanceTimersByTimeAsync(199);
+        expect(requests).toHaveLength(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect((await result).extracts.has('А')).toBe(true);
+        expect(requests).toHaveLength(3);
+    });
+
+    it('сдается после maxRetries повторов', async () => {
+        const {fetch, requests} = mockFetch(() => new Response('', {status: 500}));
+        const client = new WikipediaClient({fetch, maxRetries: 2, retryDelay: 1, minRequestInterval: 0});
+
+        await expect(client.getArticles(['А'])).rejects.toBeInstanceOf(WikipediaApiError);
+        expect(requests).toHaveLength(3);
+    });
+
+    it('не повторяет ошибки клиента', async () => {
+        const {fetch, requests} = mockFetch(() => new Response('', {status: 404}));
+        const client = new WikipediaClient({fetch, retryDelay: 1, minRequestInterval: 0});
+
+        await expect(client.getArticles(['А'])).rejects.toMatchObject({code: 'http', retryable: false});
+        expect(requests).toHaveLength(1);
+    });
+
+    it('повторяет сетевые ошибки', async () => {
+        let failed = false;
+        const {fetch, requests} = mockFetch(() => {
+            if (!failed) {
+                failed = true;
+                throw new TypeError('fetch failed');
+            }
+            return json({query: {pages: pages(['А'])}});
+        });
+        const client = new WikipediaClient({fetch, retryDelay: 1, minRequestInterval: 0});
+
+        expect((await client.getArticles(['А'])).extracts.has('А')).toBe(true);
+        expect(requests).toHaveLength(2);
+    });
+
+    it('отвечает из кэша без повторного запроса', async () => {
+        const {fetch, requests} = mockFetch(() => json({query: {pages: pages(['А'])}}));
+        const client = new WikipediaClient({fetch, cache: new MemoryResponseCache(), minRequestInterval: 0});
+
+        await client.getArticles(['А']);
+        const {extracts} = await client.getArticles(['А']);
+
+        expect(extracts.has('А')).toBe(true);
+        expect(requests).toHaveLength(1);
+    });
+
+    it('собирает участников категории по продолжениям до limit', async () => {
+        const {fetch, requests} = mockFetch((params) => params.has('cmcontinue')
+            ? json({query: {categorymembers: [{title: 'В'}, {title: 'Г'}]}})
+            : json({continue: {cmcontinue: 'page|2', continue: '-||'}, query: {categorymembers: [{title: 'А'}, {title: 'Б'}]}}));
+        const client = new WikipediaClient({fetch, minRequestInterval: 0});
+
+        expect(await client.getCategoryMembers('Шахматы', 3)).toEqual(['А', 'Б', 'В']);
+        expect(requests[0].get('cmtitle')).toBe('Category:Шахматы');
+        expect(requests[1].get('cmcontinue')).toBe('page|2');
+    });
+});
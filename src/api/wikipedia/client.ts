@@ -0,0 +1,284 @@
+// ==========================================
+// Wikipedia API Client
+// ==========================================
+
+import type {IResponseCache} from "./cache.ts";
+
+const DEFAULT_ENDPOINT = 'https://ru.wikipedia.org/w/api.php';
+// Больше 50 заголовков в одном запросе API не принимает (для ботов — 500)
+const MAX_BATCH_SIZE = 50;
+// Ошибки API, после которых имеет смысл повторить запрос
+const RETRYABLE_API_ERRORS = new Set(['maxlag', 'ratelimited', 'readonly', 'internal_api_error_DBQueryError']);
+
+export interface WikipediaClientOptions {
+    endpoint?: string;
+    fetch?: typeof fetch;           // Подменяется в тестах (или endpoint указывает на локальный mock-сервер)
+    batchSize?: number;             // Заголовков в одном запросе, не больше 50
+    maxRetries?: number;            // Повторов после первой неудачной попытки
+    retryDelay?: number;            // Начальная задержка перед повтором, мс; удваивается с каждой попыткой
+    minRequestInterval?: number;    // Минимальный интервал между запросами, мс
+    cache?: IResponseCache | null;
+}
+
+export interface WikipediaArticles {
+    extracts: Map<string, string>;  // Итоговый заголовок -> текст статьи
+    redirects: Map<string, string>; // Запрошенный заголовок -> итоговый (перенаправления и нормализация)
+    missing: string[];              // Запрошенные заголовки, которых нет
+}
+
+interface TitleMapping {
+    from: string;
+    to: string;
+}
+
+interface ApiPage {
+    title: string;
+    ns?: number;
+    missing?: boolean;
+    invalid?: boolean;
+    extract?: string;
+}
+
+interface ApiResponse {
+    continue?: Record<string, string | number>;
+    query?: {
+        normalized?: TitleMapping[];
+        redirects?: TitleMapping[];
+        pages?: ApiPage[];
+        categorymembers?: ApiPage[];
+        random?: ApiPage[];
+    };
+    error?: {code: string; info: string};
+}
+
+type QueryParams = Record<string, string | number>;
+
+/**
+ * Ошибка запроса к API, оставшаяся после всех повторов.
+ */
+export class WikipediaApiError extends Error {
+    public readonly code: string;
+    public readonly retryable: boolean;
+    public readonly retryAfter?: number; // мс, из заголовка Retry-After
+
+    constructor(message: string, code: string, retryable: boolean, retryAfter?: number) {
+        super(message);
+        this.name = 'WikipediaApiError';
+        this.code = code;
+        this.retryable = retryable;
+        this.retryAfter = retryAfter;
+    }
+}
+
+const sleep = (ms: number): Promise<void> =>
+    ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+    const result: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        result.push(items.slice(i, i + size));
+    }
+    return result;
+};
+
+/**
+ * Клиент MediaWiki API:
+ * - заголовки запрашиваются пачками (до 50), перенаправления разрешаются (redirects=1);
+ * - ответы с continue дозапрашиваются: полный текст API отдает по одной статье на ответ;
+ * - сетевые ошибки, 429/5xx и maxlag повторяются с экспоненциальной задержкой (учитывая Retry-After);
+ * - запросы идут не чаще minRequestInterval;
+ * - ответы (кроме случайных статей) кэшируются по URL.
+ */
+export class WikipediaClient {
+    private readonly endpoint: string;
+    private readonly fetch: typeof fetch;
+    private readonly batchSize: number;
+    private readonly maxRetries: number;
+    private readonly retryDelay: number;
+    private readonly minRequestInterval: number;
+    private readonly cache: IResponseCache | null;
+    private nextRequestAt = 0;
+
+    constructor(options: WikipediaClientOptions = {}) {
+        this.endpoint = options.endpoint ?? DEFAULT_ENDPOINT;
+        this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+        this.batchSize = Math.min(Math.max(1, options.batchSize ?? MAX_BATCH_SIZE), MAX_BATCH_SIZE);
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryDelay = options.retryDelay ?? 500;
+        this.minRequestInterval = options.minRequestInterval ?? 100;
+        this.cache = options.cache ?? null;
+    }
+
+    /**
+     * Полные тексты статей (без разметки) по заголовкам.
+     */
+    public async getArticles(titles: string[]): Promise<WikipediaArticles> {
+        const result: WikipediaArticles = {extracts: new Map(), redirects: new Map(), missing: []};
+
+        for (const batch of chunk([...new Set(titles)], this.batchSize)) {
+            const responses = await this.query({
+                prop: 'extracts',
+                explaintext: 1,
+                exlimit: 'max',
+                redirects: 1,
+                titles: batch.join('|'),
+            });
+
+            const resolved = new Map<string, string>();
+            for (const {query} of responses) {
+                query?.normalized?.forEach(({from, to}) => resolved.set(from, to));
+                query?.redirects?.forEach(({from, to}) => resolved.set(from, to));
+
+                for (const page of query?.pages ?? []) {
+                    if (page.extract) {
+                        // Текст одной статьи может прийти частями в разных ответах продолжения
+                        result.extracts.set(page.title, (result.extracts.get(page.title) ?? '') + page.extract);
+                    }
+                }
+            }
+
+            for (const title of batch) {
+                let target = title;
+                // normalized -> redirects: "париж" -> "Париж" -> "Париж (город)"
+                for (let hops = 0; resolved.has(target) && hops < 5; hops++) {
+                    target = resolved.get(target)!;
+                }
+
+                if (target !== title) result.redirects.set(title, target);
+                if (!result.extracts.has(target)) result.missing.push(title);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Заголовки статей категории (без подкатегорий).
+     */
+    public async getCategoryMembers(category: string, limit: number = 500): Promise<string[]> {
+        const title = /^(?:category|категория):/i.test(category) ? category : `Category:${category}`;
+        const titles: string[] = [];
+
+        const responses = this.iterate({
+            list: 'categorymembers',
+            cmtitle: title,
+            cmnamespace: 0,
+            cmlimit: Math.min(limit, 500),
+        });
+
+        for await (const {query} of responses) {
+            for (const page of query?.categorymembers ?? []) {
+                titles.push(page.title);
+                if (titles.length >= limit) return titles;
+            }
+        }
+
+        return titles;
+    }
+
+    /**
+     * Заголовки случайных статей. Не кэшируются — иначе они перестанут быть случайными.
+     */
+    public async getRandomTitles(count: number): Promise<string[]> {
+        const titles: string[] = [];
+        while (titles.length < count) {
+            const [response] = await this.query(
+                {list: 'random', rnnamespace: 0, rnlimit: Math.min(count - titles.length, 500)},
+                false,
+                false
+            );
+            const random = response.query?.random ?? [];
+            if (random.length === 0) break;
+            random.forEach(page => titles.push(page.title));
+        }
+        return titles;
+    }
+
+    public async getCategoryArticles(category: string, limit?: number): Promise<WikipediaArticles> {
+        return this.getArticles(await this.getCategoryMembers(category, limit));
+    }
+
+    public async getRandomArticles(count: number): Promise<WikipediaArticles> {
+        return this.getArticles(await this.getRandomTitles(count));
+    }
+
+    /**
+     * Все ответы запроса с учетом продолжений.
+     */
+    private async query(params: QueryParams, follow: boolean = true, useCache: boolean = true): Promise<ApiResponse[]> {
+        const responses: ApiResponse[] = [];
+        for await (const response of this.iterate(params, follow, useCache)) {
+            responses.push(response);
+        }
+        return responses;
+    }
+
+    private async* iterate(params: QueryParams, follow: boolean = true, useCache: boolean = true): AsyncGenerator<ApiResponse> {
+        let continuation: QueryParams = {};
+        do {
+            const response = await this.request({...params, ...continuation}, useCache);
+            yield response;
+            continuation = response.continue ?? {};
+        } while (follow && Object.keys(continuation).length > 0);
+    }
+
+    private buildUrl(params: QueryParams): string {
+        const url = new URL(this.endpoint);
+        const all: QueryParams = {action: 'query', format: 'json', formatversion: 2, origin: '*', ...params};
+        Object.keys(all).sort().forEach(key => url.searchParams.append(key, String(all[key])));
+        return url.toString();
+    }
+
+    private async request(params: QueryParams, useCache: boolean): Promise<ApiResponse> {
+        const url = this.buildUrl(params);
+
+        // Недоступный кэш не должен ломать загрузку — работаем как без него
+        if (useCache && this.cache) {
+            const cached = await this.cache.get(url).catch(() => undefined);
+            if (cached !== undefined) return cached as ApiResponse;
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await this.send(url);
+                if (useCache && this.cache) await this.cache.set(url, response).catch(() => undefined);
+                return response;
+            } catch (e) {
+                const error = e instanceof WikipediaApiError
+                    ? e
+                    : new WikipediaApiError(`Network error: ${(e as Error).message}`, 'network', true);
+
+                if (!error.retryable || attempt >= this.maxRetries) throw error;
+                await sleep(error.retryAfter ?? this.retryDelay * 2 ** attempt);
+            }
+        }
+    }
+
+    private async send(url: string): Promise<ApiResponse> {
+        // Соблюдаем интервал между запросами, даже если их запускают параллельно
+        const slot = Math.max(Date.now(), this.nextRequestAt);
+        this.nextRequestAt = slot + this.minRequestInterval;
+        await sleep(slot - Date.now());
+
+        const response = await this.fetch(url);
+
+        if (response.status === 429 || response.status >= 500) {
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            throw new WikipediaApiError(
+                `HTTP ${response.status}`,
+                'http',
+                true,
+                Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+            );
+        }
+        if (!response.ok) {
+            throw new WikipediaApiError(`HTTP ${response.status}`, 'http', false);
+        }
+
+        const data = await response.json() as ApiResponse;
+        if (data.error) {
+            throw new WikipediaApiError(data.error.info, data.error.code, RETRYABLE_API_ERRORS.has(data.error.code));
+        }
+        return data;
+    }
+}
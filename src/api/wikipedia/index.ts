@@ -0,0 +1,4 @@
+export {WikipediaClient, WikipediaApiError} from "./client.ts";
+export type {WikipediaClientOptions, WikipediaArticles} from "./client.ts";
+export {MemoryResponseCache, IndexedDBResponseCache} from "./cache.ts";
+export type {IResponseCache} from "./cache.ts";
@@ -0,0 +1,80 @@
+import {describe, expect, it} from 'vitest';
+import {Bzip2Decoder} from "./bzip2.ts";
+import {readChunks} from "./stream.ts";
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+// Сжаты python-модулем bz2 (уровень 9, для BLOCKS — уровень 1)
+const HELLO = fromBase64('QlpoOTFBWSZTWZ37iIEAAA3V6gAQYAQAQAYEkIBQAAAAkkRgACAAMUwmmgNMQhGhoZA2pMkKrYdc4ZkJ1sDBHuPaC0gfF3JFOFCQnfuIgQ==');
+const RUNS = fromBase64('QlpoOTFBWSZTWeqI5FMAAAGBi6AAAHAgAEAAAIAACCAAMQwIClQB63ksQubRcRdKRqkj3T4u5IpwoSHVEcim');
+const SECOND = fromBase64('QlpoOTFBWSZTWRNN9kEAAAaQakABUAAQAAAx4AAgACEqaYDQgGmmiaXkBOl4LYFwu5IpwoSAmm+yCA==');
+const BLOCKS = fromBase64(
+    'QlpoMTFBWSZTWVwWmqkAdSoQCkAFf4BAACAAkCBoGgFKpoNGTCgqMVBUcZqCo1UFRuKgqO1BUeVBUZqCo9qCo+qCo6qCo1UFRuoKjH5igrJMprN/' +
+    '5zX0AGGjIBSACv8AgABAASBA0DQClU0GjJioKjFQVGagqNVBUbqCo84hSEPKgqMVBUZqCo9qCo+qCo6qCo1UFRuoKj8xQVkmU1lZ12XdAH7tkApA' +
+    'BX+AQAAgAJAgaBoBSqaMQMVBUYqCo3UFR7UFR8KgqM1BUcaUFRuoKjuoKjyoKjNQVHtQVH1QVGvzFBWSZTWW0ImCYAOpUQCkAFf4BAACAAkCBoGg' +
+    'FKpoNGTFQVGKgqM1BUaqCo2qCozwkiSvKgqM1BUc1BUe1BUfVBUdVBUaqCo3UFR+YoKyTKazndsqsgAANCAUgAr/AIAAQABiBoGgFSgAKlTR08km' +
+    'JmU1NnCx08fF3JFOFCQTVRPIAA==');
+
+const decode = (input: Uint8Array, chunkSize: number = input.length, bufferSize?: number): string => {
+    const decoder = new Bzip2Decoder(bufferSize);
+    const blocks: Uint8Array[] = [];
+    for (let i = 0; i < input.length; i += chunkSize) {
+        blocks.push(...decoder.push(input.subarray(i, i + chunkSize)));
+    }
+    blocks.push(...decoder.finish());
+    return new TextDecoder().decode(concat(...blocks));
+};
+
+describe('Bzip2Decoder', () => {
+    it('распаковывает текст в UTF-8', () => {
+        expect(decode(HELLO)).toBe('Привет, мир! Hello, world!\n');
+    });
+
+    it('раскрывает серии повторов', () => {
+        expect(decode(RUNS)).toBe('a'.repeat(1000) + 'б'.repeat(300) + 'xyz'.repeat(50));
+    });
+
+    it('читает несколько блоков', () => {
+        expect(decode(BLOCKS)).toBe('абвгд, ежз. '.repeat(20000));
+    });
+
+    it('читает склеенные потоки подряд', () => {
+        expect(decode(concat(HELLO, SECOND))).toBe('Привет, мир! Hello, world!\nВторой поток.');
+    });
+
+    it('не зависит от нарезки ввода на куски', () => {
+        // bufferSize 0 — разбор на каждом куске, недочитанный блок откладывается до следующего
+        expect(decode(BLOCKS, 1, 0)).toBe('абвгд, ежз. '.repeat(20000));
+        expect(decode(concat(HELLO, SECOND), 7, 0)).toBe('Привет, мир! Hello, world!\nВторой поток.');
+    });
+
+    it('отклоняет оборванный поток', () => {
+        expect(() => decode(HELLO.subarray(0, HELLO.length - 5))).toThrow(/unexpected end/);
+    });
+
+    it('проверяет контрольную сумму блока', () => {
+        const corrupted = HELLO.slice();
+        corrupted[10] ^= 0xff;
+        expect(() => decode(corrupted)).toThrow(/checksum/);
+    });
+});
+
+describe('readChunks', () => {
+    it('распаковывает bzip2 по сигнатуре', async () => {
+        let text = '';
+        for await (const chunk of readChunks(new Blob([concat(HELLO, SECOND)]))) {
+            text += chunk;
+        }
+        expect(text).toBe('Привет, мир! Hello, world!\nВторой поток.');
+    });
+});
@@ -0,0 +1,397 @@
+// ==========================================
+// bzip2 decoder
+// ==========================================
+
+const STREAM_MAGIC = [0x42, 0x5a, 0x68]; // "BZh"
+const BLOCK_MAGIC = 0x314159265359;
+const END_MAGIC = 0x177245385090;
+
+const GROUP_SIZE = 50;
+const MAX_GROUPS = 6;
+const MAX_CODE_LENGTH = 20;
+const RUN_A = 0;
+const RUN_B = 1;
+
+// Сжатый блок больше исходного (до 900 000 байт) только на несжимаемых данных
+const MAX_BLOCK_BYTES = 1 << 20;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 24;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+        }
+        table[i] = crc >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Ввод кончился посреди блока: блок разбирается заново, когда придет следующий кусок.
+ */
+class NeedMoreInput extends Error {
+}
+
+/**
+ * Канонический код Хаффмана одной группы: число кодов каждой длины
+ * и символы в порядке возрастания кодов.
+ */
+interface HuffmanTable {
+    counts: Uint16Array;
+    symbols: Uint16Array;
+}
+
+const buildTable = (lengths: Uint8Array): HuffmanTable => {
+    const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+    for (const length of lengths) counts[length]++;
+
+    const offsets = new Uint16Array(MAX_CODE_LENGTH + 2);
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+        offsets[length + 1] = offsets[length] + counts[length];
+    }
+
+    const symbols = new Uint16Array(lengths.length);
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+        symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+    return {counts, symbols};
+};
+
+/**
+ * Потоковый распаковщик bzip2: принимает сжатые байты кусками произвольной длины
+ * и отдает распакованные блоки. Склеенные потоки (pbzip2, multistream-дампы Википедии)
+ * читаются подряд; контрольные суммы блоков и потоков проверяются.
+ */
+export class Bzip2Decoder {
+    private input = new Uint8Array(0);
+    private pending: Uint8Array[] = [];
+    private pendingBytes = 0;
+    private position = 0; // В битах от начала input
+    private inStream = false;
+    private blockSize = 0;
+    private streamCrc = 0;
+    private tt = new Uint32Array(0);
+    private readonly bufferSize: number;
+
+    /**
+     * @param bufferSize сколько байт ввода накопить перед разбором: с запасом на целый блок,
+     * чтобы недочитанный блок не разбирался заново на каждом куске
+     */
+    constructor(bufferSize: number = MAX_BLOCK_BYTES) {
+        this.bufferSize = bufferSize;
+    }
+
+    /**
+     * Принять очередной кусок сжатых данных; возвращает блоки, которые удалось распаковать.
+     */
+    public push(chunk: Uint8Array): Uint8Array[] {
+        this.pending.push(chunk);
+        this.pendingBytes += chunk.length;
+        if (this.input.length - (this.position >>> 3) + this.pendingBytes < this.bufferSize) {
+            return [];
+        }
+        return this.decode(false);
+    }
+
+    /**
+     * Ввод закончился: распаковать остаток. Обрыв посреди потока — ошибка.
+     */
+    public finish(): Uint8Array[] {
+        const blocks = this.decode(true);
+        if (this.inStream) {
+            throw new Error("bzip2: unexpected end of stream");
+        }
+        return blocks;
+    }
+
+    private decode(final: boolean): Uint8Array[] {
+        this.flushPending();
+
+        const blocks: Uint8Array[] = [];
+        while (true) {
+            const start = this.position;
+            try {
+                if (!this.inStream) {
+                    if (!this.readStreamHeader(final)) break;
+                    continue;
+                }
+
+                const magic = this.bits(24) * 0x1000000 + this.bits(24);
+                if (magic === BLOCK_MAGIC) {
+                    blocks.push(this.readBlock());
+                } else if (magic === END_MAGIC) {
+                    const crc = this.bits(32);
+                    if (crc !== this.streamCrc) throw new Error("bzip2: stream checksum mismatch");
+                    this.position = (this.position + 7) & ~7;
+                    this.inStream = false;
+                } else {
+                    throw new Error("bzip2: invalid block header");
+                }
+            } catch (error) {
+                if (!(error instanceof NeedMoreInput)) throw error;
+                if (final) throw new Error("bzip2: unexpected end of stream");
+                this.position = start;
+                break;
+            }
+        }
+
+        this.compact();
+        return blocks;
+    }
+
+    /**
+     * Заголовок "BZh1".."BZh9". Нули после последнего потока допускаются (выравнивание ленточных архивов).
+     */
+    private readStreamHeader(final: boolean): boolean {
+        const offset = this.position >>> 3;
+        if (final && this.input.subarray(offset).every(byte => byte === 0)) {
+            this.position = this.input.length * 8;
+            return false;
+        }
+        if (this.input.length - offset < 4) {
+            if (final) throw new Error("bzip2: truncated stream header");
+            return false;
+        }
+
+        const level = this.input[offset + 3] - 0x30;
+        if (!STREAM_MAGIC.every((byte, i) => this.input[offset + i] === byte) || level < 1 || level > 9) {
+            throw new Error("bzip2: invalid stream header");
+        }
+
+        this.position += 32;
+        this.inStream = true;
+        this.blockSize = level * 100000;
+        this.streamCrc = 0;
+        if (this.tt.length < this.blockSize) this.tt = new Uint32Array(this.blockSize);
+        return true;
+    }
+
+    private readBlock(): Uint8Array {
+        const expectedCrc = this.bits(32);
+        if (this.bits(1)) throw new Error("bzip2: randomised blocks are not supported");
+        const origin = this.bits(24);
+
+        // Какие байты встречаются в блоке: 16 диапазонов по 16
+        const seqToUnseq = new Uint8Array(256);
+        let inUse = 0;
+        const ranges = this.bits(16);
+        for (let i = 0; i < 16; i++) {
+            if (!(ranges & (0x8000 >> i))) continue;
+            const used = this.bits(16);
+            for (let j = 0; j < 16; j++) {
+                if (used & (0x8000 >> j)) seqToUnseq[inUse++] = i * 16 + j;
+            }
+        }
+        if (inUse === 0) throw new Error("bzip2: empty symbol map");
+        const alphaSize = inUse + 2;
+
+        const groupCount = this.bits(3);
+        const selectorCount = this.bits(15);
+        if (groupCount < 2 || groupCount > MAX_GROUPS || selectorCount === 0) {
+            throw new Error("bzip2: invalid huffman groups");
+        }
+
+        // Селекторы закодированы унарно и move-to-front
+        const groupOrder = Array.from({length: groupCount}, (_, i) => i);
+        const selectors = new Uint8Array(selectorCount);
+        for (let i = 0; i < selectorCount; i++) {
+            let j = 0;
+            while (this.bits(1)) {
+                if (++j >= groupCount) throw new Error("bzip2: invalid selector");
+            }
+            const group = groupOrder[j];
+            groupOrder.splice(j, 1);
+            groupOrder.unshift(group);
+            selectors[i] = group;
+        }
+
+        // Длины кодов — дельтами от предыдущей
+        const tables: HuffmanTable[] = [];
+        for (let group = 0; group < groupCount; group++) {
+            const lengths = new Uint8Array(alphaSize);
+            let length = this.bits(5);
+            for (let symbol = 0; symbol < alphaSize; symbol++) {
+                while (true) {
+                    if (length < 1 || length > MAX_CODE_LENGTH) throw new Error("bzip2: invalid code length");
+                    if (!this.bits(1)) break;
+                    length += this.bits(1) ? -1 : 1;
+                }
+                lengths[symbol] = length;
+            }
+            tables.push(buildTable(lengths));
+        }
+
+        // Символы Хаффмана → серии RUNA/RUNB и move-to-front → байты блока после BWT
+        const tt = this.tt;
+        const byteCounts = new Uint32Array(256);
+        const mtf = Uint8Array.from({length: 256}, (_, i) => i);
+        const endOfBlock = inUse + 1;
+        let count = 0;
+        let selector = 0;
+        let groupLeft = 0;
+        let table = tables[0];
+        let run = 0;
+        let runWeight = 0;
+
+        while (true) {
+            if (groupLeft === 0) {
+                if (selector >= selectorCount) throw new Error("bzip2: selectors exhausted");
+                table = tables[selectors[selector++]];
+                groupLeft = GROUP_SIZE;
+            }
+            groupLeft--;
+
+            const symbol = this.symbol(table);
+            if (symbol === RUN_A || symbol === RUN_B) {
+                if (runWeight === 0) runWeight = 1;
+                run += runWeight << symbol;
+                runWeight <<= 1;
+                if (run > this.blockSize) throw new Error("bzip2: run exceeds block size");
+                continue;
+            }
+
+            if (runWeight) {
+                if (count + run > this.blockSize) throw new Error("bzip2: block overflow");
+                const byte = seqToUnseq[mtf[0]];
+                byteCounts[byte] += run;
+                tt.fill(byte, count, count + run);
+                count += run;
+                run = 0;
+                runWeight = 0;
+            }
+
+            if (symbol === endOfBlock) break;
+            if (symbol > endOfBlock || count >= this.blockSize) throw new Error("bzip2: block overflow");
+
+            const index = symbol - 1;
+            const value = mtf[index];
+            mtf.copyWithin(1, 0, index);
+            mtf[0] = value;
+            const byte = seqToUnseq[value];
+            byteCounts[byte]++;
+            tt[count++] = byte;
+        }
+
+        if (origin >= count) throw new Error("bzip2: invalid origin pointer");
+
+        // Обратное BWT: в старших битах tt — ссылка на следующий байт
+        let sum = 0;
+        for (let byte = 0; byte < 256; byte++) {
+            const n = byteCounts[byte];
+            byteCounts[byte] = sum;
+            sum += n;
+        }
+        for (let i = 0; i < count; i++) {
+            tt[byteCounts[tt[i] & 0xff]++] |= i << 8;
+        }
+
+        // Первичный RLE: после четырех одинаковых байтов идет число повторов
+        let output = new Uint8Array(count + (count >>> 2));
+        let length = 0;
+        let crc = 0xffffffff;
+        let last = -1;
+        let repeats = 0;
+        let entry = tt[tt[origin] >>> 8];
+
+        const emit = (byte: number, times: number) => {
+            if (length + times > output.length) {
+                const grown = new Uint8Array(Math.max(output.length * 2, length + times));
+                grown.set(output.subarray(0, length));
+                output = grown;
+            }
+            for (let k = 0; k < times; k++) {
+                output[length++] = byte;
+                crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff];
+            }
+        };
+
+        for (let i = 0; i < count; i++) {
+            const byte = entry & 0xff;
+            entry = tt[entry >>> 8];
+
+            if (repeats === 4) {
+                emit(last, byte);
+                repeats = 0;
+                continue;
+            }
+            repeats = byte === last ? repeats + 1 : 1;
+            last = byte;
+            emit(byte, 1);
+        }
+
+        if ((~crc >>> 0) !== expectedCrc) throw new Error("bzip2: block checksum mismatch");
+        this.streamCrc = (((this.streamCrc << 1) | (this.streamCrc >>> 31)) ^ expectedCrc) >>> 0;
+        return output.subarray(0, length);
+    }
+
+    /**
+     * Один символ канонического кода, бит за битом.
+     */
+    private symbol({counts, symbols}: HuffmanTable): number {
+        let code = 0;
+        let first = 0;
+        let index = 0;
+        for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+            code |= this.bits(1);
+            const n = counts[length];
+            if (code - first < n) return symbols[index + code - first];
+            index += n;
+            first = (first + n) << 1;
+            code <<= 1;
+        }
+        throw new Error("bzip2: invalid huffman code");
+    }
+
+    private bits(n: number): number {
+        let value = 0;
+        for (let i = 0; i < n; i++) {
+            const offset = this.position >>> 3;
+            if (offset >= this.input.length) throw new NeedMoreInput();
+            value = value * 2 + ((this.input[offset] >>> (7 - (this.position & 7))) & 1);
+            this.position++;
+        }
+        return value;
+    }
+
+    private flushPending(): void {
+        if (this.pending.length === 0) return;
+        const merged = new Uint8Array(this.input.length + this.pendingBytes);
+        merged.set(this.input);
+        let offset = this.input.length;
+        for (const chunk of this.pending) {
+            merged.set(chunk, offset);
+            offset += chunk.length;
+        }
+        this.input = merged;
+        this.pending = [];
+        this.pendingBytes = 0;
+    }
+
+    /**
+     * Отбросить уже прочитанные байты, сохранив позицию внутри текущего байта.
+     */
+    private compact(): void {
+        const offset = this.position >>> 3;
+        if (offset === 0) return;
+        this.input = this.input.slice(offset);
+        this.position &= 7;
+    }
+}
+
+export const isBzip2 = (bytes: Uint8Array): boolean => STREAM_MAGIC.every((byte, i) => bytes[i] === byte);
+
+/**
+ * Распаковка bzip2 с тем же интерфейсом, что у DecompressionStream.
+ */
+export const createBzip2Stream = (): TransformStream<Uint8Array, Uint8Array> => {
+    const decoder = new Bzip2Decoder();
+    return new TransformStream({
+        transform(chunk, controller) {
+            for (const block of decoder.push(chunk)) controller.enqueue(block);
+        },
+        flush(controller) {
+            for (const block of decoder.finish()) controller.enqueue(block);
+        },
+    });
+};
@@ -0,0 +1,65 @@
+import type {CorpusLoader} from "../models";
+import type {TrainingDocument} from "../models/interface.ts";
+import type {ICorpusSource} from "./interface.ts";
+
+export type {CorpusDocument, CorpusInput, ICorpusSource} from "./interface.ts";
+export {PlainTextSource} from "./text.ts";
+export {MarkdownSource, stripMarkdown} from "./markdown.ts";
+export {JsonlSource} from "./jsonl.ts";
+export type {JsonlSourceOptions} from "./jsonl.ts";
+export {WikipediaDumpSource} from "./wikipedia-dump.ts";
+export type {WikipediaDumpOptions} from "./wikipedia-dump.ts";
+export {WikipediaApiSource} from "./wikipedia-api.ts";
+export {cleanWikiMarkup} from "./wiki-markup.ts";
+
+/**
+ * Несколько источников как один: документы идут по очереди.
+ */
+export const combineSources = (...sources: ICorpusSource[]): ICorpusSource => ({
+    key: sources.map(_ => _.key).join('+'),
+    async* documents() {
+        for (const source of sources) {
+            yield* source.documents();
+        }
+    },
+});
+
+/**
+ * Источник с весом его документов при обучении.
+ */
+export interface WeightedSource {
+    source: ICorpusSource;
+    weight: number;
+}
+
+const toWeighted = (source: ICorpusSource | WeightedSource): WeightedSource =>
+    'documents' in source ? {source, weight: 1} : source;
+
+/**
+ * Документы источника в виде обучающих: метка источника — его key.
+ */
+export const readDocuments = async (source: ICorpusSource, weight: number = 1): Promise<TrainingDocument[]> => {
+    const documents: TrainingDocument[] = [];
+    for await (const document of source.documents()) {
+        documents.push({text: document.text, source: source.key, weight});
+    }
+    return documents;
+};
+
+/**
+ * Источники в виде загрузчика для modelAbstractFactory.
+ * Веса входят в ключ кэша: тот же корпус с другими весами — другая модель.
+ */
+export const toCorpusLoader = (...sources: Array<ICorpusSource | WeightedSource>): CorpusLoader => {
+    const weighted = sources.map(toWeighted);
+    return {
+        key: weighted.map(({source, weight}) => weight === 1 ? source.key : `${source.key}*${weight}`).join('+'),
+        load: async () => {
+            const documents: TrainingDocument[] = [];
+            for (const {source, weight} of weighted) {
+                documents.push(...await readDocuments(source, weight));
+            }
+            return documents;
+        },
+    };
+};
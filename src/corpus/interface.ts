@@ -0,0 +1,23 @@
+/**
+ * Один документ корпуса: статья, файл, строка JSONL.
+ */
+export interface CorpusDocument {
+    id: string;
+    title?: string;
+    text: string;
+}
+
+/**
+ * Источник обучающих данных.
+ * key однозначно описывает содержимое и используется как часть ключа кэша моделей.
+ * documents() можно вызывать повторно — каждый раз чтение начинается сначала.
+ */
+export interface ICorpusSource {
+    readonly key: string;
+    documents(): AsyncIterable<CorpusDocument>;
+}
+
+/**
+ * Содержимое источника: файл (File/Blob из <input type="file"> или fetch) либо уже прочитанная строка.
+ */
+export type CorpusInput = Blob | string;
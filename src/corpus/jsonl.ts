@@ -0,0 +1,55 @@
+import type {CorpusDocument, CorpusInput, ICorpusSource} from "./interface.ts";
+import {inputKey, readLines} from "./stream.ts";
+
+export interface JsonlSourceOptions {
+    textField?: string;  // По умолчанию "text"
+    titleField?: string; // По умолчанию "title"
+    idField?: string;    // По умолчанию "id"; без него — номер строки
+}
+
+/**
+ * JSON Lines: один JSON-объект на строку, каждый — документ.
+ * Пустые строки и объекты без текстового поля пропускаются, битый JSON — ошибка с номером строки.
+ */
+export class JsonlSource implements ICorpusSource {
+    public readonly key: string;
+    private readonly input: CorpusInput;
+    private readonly options: Required<JsonlSourceOptions>;
+
+    constructor(input: CorpusInput, options: JsonlSourceOptions = {}) {
+        this.input = input;
+        this.options = {
+            textField: 'text',
+            titleField: 'title',
+            idField: 'id',
+            ...options,
+        };
+        this.key = `jsonl:${this.options.textField}:${inputKey(input)}`;
+    }
+
+    public async* documents(): AsyncGenerator<CorpusDocument> {
+        let lineNumber = 0;
+        for await (const line of readLines(this.input)) {
+            lineNumber++;
+            if (!line.trim()) continue;
+
+            let record: Record<string, unknown>;
+            try {
+                record = JSON.parse(line);
+            } catch (e) {
+                throw new Error(`Invalid JSON on line ${lineNumber}: ${(e as Error).message}`);
+            }
+
+            const text = record[this.options.textField];
+            if (typeof text !== 'string' || !text.trim()) continue;
+
+            const title = record[this.options.titleField];
+            const id = record[this.options.idField];
+            yield {
+                id: id === undefined ? String(lineNumber) : String(id),
+                title: typeof title === 'string' ? title : undefined,
+                text,
+            };
+        }
+    }
+}
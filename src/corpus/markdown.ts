@@ -0,0 +1,48 @@
+import type {CorpusDocument, CorpusInput, ICorpusSource} from "./interface.ts";
+import {inputKey, readAll} from "./stream.ts";
+
+/**
+ * Убирает разметку Markdown, оставляя текст: код, ссылки, изображения, HTML и таблицы
+ * не должны попадать в статистику слов.
+ */
+export const stripMarkdown = (markdown: string): string => markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '')              // front matter
+    .replace(/^(```|~~~)[\s\S]*?^\1.*$/gm, '')        // блоки кода
+    .replace(/`[^`\n]*`/g, '')                         // инлайн-код
+    .replace(/<!--[\s\S]*?-->/g, '')                   // комментарии
+    .replace(/<[^>\n]+>/g, '')                         // HTML-теги
+    .replace(/!\[[^\]]*]\([^)]*\)/g, '')               // изображения
+    .replace(/\[([^\]]*)]\([^)]*\)/g, '$1')            // ссылки -> текст ссылки
+    .replace(/\[([^\]]*)]\[[^\]]*]/g, '$1')            // ссылки-сноски
+    .replace(/^[ \t]*\[[^\]]+]:.*$/gm, '')             // определения сносок
+    .replace(/^[ \t]*\|?[ \t]*:?-{3,}.*$/gm, '')       // разделитель таблицы
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, row: string) => row.split('|').join('. '))
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, '$1.') // заголовки — отдельные предложения
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')               // цитаты
+    .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, '')   // маркеры списков
+    .replace(/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, '')      // горизонтальные линии
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)([\s\S]*?\S)\1/g, '$2') // выделение
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Файл Markdown — один документ, заголовок — первый заголовок первого уровня.
+ */
+export class MarkdownSource implements ICorpusSource {
+    public readonly key: string;
+    private readonly input: CorpusInput;
+
+    constructor(input: CorpusInput) {
+        this.input = input;
+        this.key = `markdown:${inputKey(input)}`;
+    }
+
+    public async* documents(): AsyncGenerator<CorpusDocument> {
+        const markdown = await readAll(this.input);
+        const title = markdown.match(/^#\s+(.+)$/m)?.[1].trim();
+        const text = stripMarkdown(markdown);
+        if (text) {
+            yield {id: this.key, title, text};
+        }
+    }
+}
@@ -0,0 +1,93 @@
+// ==========================================
+// Stream helpers
+// ==========================================
+
+import type {CorpusInput} from "./interface.ts";
+import {createBzip2Stream, isBzip2} from "./bzip2.ts";
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export const toBlob = (input: CorpusInput): Blob => typeof input === 'string' ? new Blob([input]) : input;
+
+/**
+ * Ключ источника для кэша: имя, размер и дата изменения файла,
+ * для строки — хеш содержимого (FNV-1a).
+ */
+export const inputKey = (input: CorpusInput): string => {
+    if (typeof input !== 'string') {
+        return input instanceof File ? `${input.name}:${input.size}:${input.lastModified}` : `blob:${input.size}`;
+    }
+
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `text:${input.length}:${(hash >>> 0).toString(16)}`;
+};
+
+const startsWith = (bytes: Uint8Array, magic: number[]): boolean => magic.every((byte, i) => bytes[i] === byte);
+
+/**
+ * Поток байтов файла, при необходимости распакованный.
+ * gzip распаковывается встроенным DecompressionStream; bzip2 браузеры не поддерживают —
+ * для него свой распаковщик на JS с тем же потоковым интерфейсом.
+ */
+export const openByteStream = async (input: CorpusInput): Promise<ReadableStream<Uint8Array>> => {
+    const blob = toBlob(input);
+    const header = new Uint8Array(await blob.slice(0, 3).arrayBuffer());
+
+    if (isBzip2(header)) {
+        return blob.stream().pipeThrough(createBzip2Stream());
+    }
+
+    if (startsWith(header, GZIP_MAGIC)) {
+        return blob.stream().pipeThrough(new DecompressionStream('gzip'));
+    }
+
+    return blob.stream();
+};
+
+/**
+ * Текст файла по кускам (граница куска может прийти посреди строки или тега).
+ */
+export async function* readChunks(input: CorpusInput): AsyncGenerator<string> {
+    const reader = (await openByteStream(input)).getReader();
+    const decoder = new TextDecoder();
+    try {
+        while (true) {
+            const {done, value} = await reader.read();
+            if (done) {
+                const tail = decoder.decode();
+                if (tail) yield tail;
+                return;
+            }
+            // stream: true — многобайтовый символ может быть разрезан между кусками
+            yield decoder.decode(value, {stream: true});
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Текст файла по строкам, без символов перевода строки.
+ */
+export async function* readLines(input: CorpusInput): AsyncGenerator<string> {
+    let buffer = '';
+    for await (const chunk of readChunks(input)) {
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop()!;
+        yield* lines;
+    }
+    if (buffer) yield buffer;
+}
+
+export const readAll = async (input: CorpusInput): Promise<string> => {
+    let text = '';
+    for await (const chunk of readChunks(input)) {
+        text += chunk;
+    }
+    return text;
+};
@@ -0,0 +1,24 @@
+import type {CorpusDocument, CorpusInput, ICorpusSource} from "./interface.ts";
+import {inputKey, readAll} from "./stream.ts";
+
+/**
+ * Обычный текстовый файл — один документ.
+ */
+export class PlainTextSource implements ICorpusSource {
+    public readonly key: string;
+    private readonly input: CorpusInput;
+    private readonly title?: string;
+
+    constructor(input: CorpusInput, title?: string) {
+        this.input = input;
+        this.title = title ?? (input instanceof File ? input.name : undefined);
+        this.key = `text:${inputKey(input)}`;
+    }
+
+    public async* documents(): AsyncGenerator<CorpusDocument> {
+        const text = await readAll(this.input);
+        if (text.trim()) {
+            yield {id: this.key, title: this.title, text};
+        }
+    }
+}
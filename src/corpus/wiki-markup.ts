@@ -0,0 +1,120 @@
+// ==========================================
+// Wiki Markup Cleaner
+// ==========================================
+
+// Разделы, в которых нет связного текста: список литературы, ссылки, примечания
+const REFERENCE_SECTIONS = [
+    'примечания', 'литература', 'ссылки', 'источники', 'см. также', 'библиография', 'комментарии',
+    'references', 'notes', 'see also', 'external links', 'further reading', 'bibliography', 'sources',
+];
+
+// Пространства имен ссылок, которые не являются текстом статьи
+const NON_TEXT_LINKS = /^(?:file|image|media|category|файл|изображение|категория|медиа):/i;
+
+const XML_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+};
+
+/**
+ * Раскрывает XML/HTML-сущности (&amp;, &#1055;, &#x41F;).
+ */
+export const decodeEntities = (text: string): string =>
+    text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+        if (body[0] === '#') {
+            const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+        }
+        return XML_ENTITIES[body.toLowerCase()] ?? entity;
+    });
+
+/**
+ * Удаляет блоки с парными скобками, учитывая вложенность: {{шаблон|{{вложенный}}}}, {| таблица |}.
+ */
+const removeNested = (text: string, open: string, close: string): string => {
+    let result = '';
+    let depth = 0;
+    let i = 0;
+
+    while (i < text.length) {
+        if (text.startsWith(open, i)) {
+            depth++;
+            i += open.length;
+        } else if (depth > 0 && text.startsWith(close, i)) {
+            depth--;
+            i += close.length;
+        } else {
+            if (depth === 0) result += text[i];
+            i++;
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Отрезает справочные разделы ("== Примечания ==" и т.п.) вместе с подразделами.
+ */
+const removeReferenceSections = (text: string): string => {
+    const lines = text.split('\n');
+    const result: string[] = [];
+    let skipLevel = 0;
+
+    for (const line of lines) {
+        const heading = line.match(/^(={2,6})\s*(.*?)\s*\1\s*$/);
+        if (heading) {
+            const level = heading[1].length;
+            if (skipLevel && level > skipLevel) continue;
+            skipLevel = REFERENCE_SECTIONS.includes(heading[2].toLowerCase()) ? level : 0;
+        }
+        if (!skipLevel) result.push(line);
+    }
+
+    return result.join('\n');
+};
+
+/**
+ * [[цель|текст]] -> текст, [[цель]] -> цель; файлы и категории удаляются.
+ * Подпись файла может содержать ссылки ([[Файл:x.jpg|мини|[[Париж]]]]), поэтому ссылки
+ * раскрываются изнутри наружу, пока не останется ни одной.
+ */
+const replaceLinks = (text: string): string => {
+    const innermost = /\[\[([^[\]]*)]]/g;
+    let previous: string;
+    do {
+        previous = text;
+        text = text.replace(innermost, (_, body: string) =>
+            NON_TEXT_LINKS.test(body) ? '' : body.slice(body.lastIndexOf('|') + 1));
+    } while (text !== previous);
+    return text;
+};
+
+/**
+ * Превращает вики-разметку в простой текст:
+ * убирает шаблоны, таблицы, сноски, файлы и категории, справочные разделы;
+ * ссылки заменяет их текстом, заголовки превращает в отдельные предложения.
+ */
+export const cleanWikiMarkup = (markup: string): string => {
+    let text = decodeEntities(markup);
+
+    text = text
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<ref[^>]*\/>/gi, '')
+        .replace(/<ref[^>]*>[\s\S]*?<\/ref>/gi, '')
+        .replace(/<(math|gallery|timeline|syntaxhighlight|source|code|pre|score|graph|references)[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+    text = removeNested(text, '{{', '}}');
+    text = removeNested(text, '{|', '|}');
+    text = removeReferenceSections(text);
+
+    text = replaceLinks(text)
+        .replace(/\[(?:https?:)?\/\/[^\s\]]+\s*([^\]]*)]/g, '$1')
+        .replace(/<[^>]+>/g, '')
+        .replace(/'{2,}/g, '')
+        .replace(/^(={1,6})\s*(.*?)\s*\1\s*$/gm, '$2.')
+        .replace(/^[*#:;]+\s*/gm, '')
+        .replace(/__[A-ZА-Я]+__/g, '')
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/\n{3,}/g, '\n\n');
+
+    return text.trim();
+};
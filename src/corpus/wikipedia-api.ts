@@ -0,0 +1,25 @@
+import type {CorpusDocument, ICorpusSource} from "./interface.ts";
+import {getArticlesFromWikipedia} from "../api";
+
+/**
+ * Статьи, загружаемые с {language}.wikipedia.org по названиям (требует сети).
+ */
+export class WikipediaApiSource implements ICorpusSource {
+    public readonly key: string;
+    private readonly titles: string[];
+    private readonly language: string;
+
+    constructor(titles: string[], language: string = 'ru') {
+        this.titles = titles;
+        this.language = language;
+        // Ключ русского корпуса не меняется, чтобы не сбрасывать уже закэшированные модели
+        this.key = language === 'ru' ? titles.join('|') : `${language}:${titles.join('|')}`;
+    }
+
+    public async* documents(): AsyncGenerator<CorpusDocument> {
+        const articles = await getArticlesFromWikipedia(this.titles, this.language);
+        for (const [title, text] of articles) {
+            yield {id: title, title, text};
+        }
+    }
+}
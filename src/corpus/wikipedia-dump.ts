@@ -0,0 +1,76 @@
+import type {CorpusDocument, CorpusInput, ICorpusSource} from "./interface.ts";
+import {inputKey, readChunks} from "./stream.ts";
+import {cleanWikiMarkup, decodeEntities} from "./wiki-markup.ts";
+
+export interface WikipediaDumpOptions {
+    namespaces?: number[]; // По умолчанию только статьи (0)
+    limit?: number;        // Максимум документов: полный дамп не поместится в память модели
+}
+
+const tagContent = (xml: string, tag: string): string | undefined =>
+    xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))?.[1];
+
+/**
+ * XML-дамп Википедии (pages-articles.xml, в том числе .xml.gz и .xml.bz2).
+ * Читается потоково, страница за страницей: перенаправления и страницы
+ * вне выбранных пространств имен пропускаются, разметка очищается.
+ */
+export class WikipediaDumpSource implements ICorpusSource {
+    public readonly key: string;
+    private readonly input: CorpusInput;
+    private readonly namespaces: Set<number>;
+    private readonly limit: number;
+
+    constructor(input: CorpusInput, options: WikipediaDumpOptions = {}) {
+        this.input = input;
+        this.namespaces = new Set(options.namespaces ?? [0]);
+        this.limit = options.limit ?? Infinity;
+        this.key = `wikipedia-dump:${[...this.namespaces].join(',')}:${this.limit}:${inputKey(input)}`;
+    }
+
+    public async* documents(): AsyncGenerator<CorpusDocument> {
+        let buffer = '';
+        let count = 0;
+
+        for await (const chunk of readChunks(this.input)) {
+            buffer += chunk;
+
+            let end: number;
+            while ((end = buffer.indexOf('</page>')) !== -1) {
+                const start = buffer.lastIndexOf('<page>', end);
+                const page = start === -1 ? '' : buffer.slice(start, end);
+                buffer = buffer.slice(end + '</page>'.length);
+
+                const document = this.parsePage(page);
+                if (!document) continue;
+
+                yield document;
+                if (++count >= this.limit) return;
+            }
+
+            // До первой страницы идет <siteinfo> — его хранить не нужно
+            const pageStart = buffer.indexOf('<page>');
+            buffer = pageStart === -1 ? buffer.slice(-'<page>'.length) : buffer.slice(pageStart);
+        }
+    }
+
+    private parsePage(page: string): CorpusDocument | null {
+        if (/<redirect[\s/>]/.test(page)) return null;
+
+        const namespace = Number(tagContent(page, 'ns') ?? 0);
+        if (!this.namespaces.has(namespace)) return null;
+
+        const markup = tagContent(page, 'text');
+        if (!markup) return null;
+
+        const text = cleanWikiMarkup(markup);
+        if (!text) return null;
+
+        const title = decodeEntities(tagContent(page, 'title') ?? '');
+        return {
+            id: tagContent(page, 'id') ?? title,
+            title,
+            text,
+        };
+    }
+}
@@ -0,0 +1,139 @@
+// ==========================================
+// Offline Evaluation
+// ==========================================
+
+import type {IAutoCompleter, Suggestion} from "../models/interface.ts";
+import {TokenizerPipeline} from "../models/tokenizer/index.ts";
+
+// Контекст позиции: модели смотрят лишь на несколько слов назад, а длинный префикс дорого токенизировать
+const CONTEXT_CHARS = 200;
+
+export interface EvaluationOptions {
+    // Метка модели в отчете
+    name: string;
+    // Сколько подсказок показывается пользователю (top-k точность и MRR)
+    topK: number;
+    // Сколько слов отложенного текста проверять: посимвольная симуляция вызывает predict на каждую букву
+    maxWords: number;
+    // Считать ли перплексию по scoreWord (имеет смысл для вероятностных моделей: KN, PPM)
+    perplexity: boolean;
+}
+
+export interface EvaluationReport {
+    name: string;
+    words: number;
+    // Буквы слов отложенного текста и нажатия, которые понадобились с подсказками (Tab — одно нажатие)
+    characters: number;
+    keystrokes: number;
+    // Keystroke savings rate: 1 - keystrokes / characters
+    keystrokeSavings: number;
+    // Доля слов, предсказанных первой подсказкой и среди первых k подсказок до начала набора
+    top1Accuracy: number;
+    topKAccuracy: number;
+    k: number;
+    // Mean reciprocal rank: среднее 1 / место слова в подсказках (0, если его там нет)
+    mrr: number;
+    // exp(-среднего ln P) по словам с ненулевой вероятностью; null, если не считалась
+    perplexity: number | null;
+    // Доля слов, которым модель дала нулевой score (в перплексию они не входят)
+    oovRate: number;
+    durationMs: number;
+}
+
+// Позиции сохраняются только без нормализаторов: NFC меняет длину текста, поэтому он применяется заранее
+const pipeline = new TokenizerPipeline({normalizers: [], tokenClasses: [], keepPunctuation: false, sentenceMarkers: false});
+
+// Модели хранят слова в нижнем регистре и с "е" вместо "ё"
+const normalize = (text: string): string => text.toLocaleLowerCase().replace(/ё/g, 'е');
+
+const matches = (suggestion: Suggestion, word: string): boolean =>
+    !suggestion.attach && normalize(suggestion.word) === normalize(word);
+
+/**
+ * Симулирует набор отложенного текста пользователем и оценивает модель.
+ * Каждое слово набирается по букве; как только первая подсказка совпадает со словом,
+ * пользователь нажимает Tab. Перед первой буквой дополнительно проверяется, на каком месте
+ * слово среди topK подсказок следующего слова.
+ */
+export const evaluate = (model: IAutoCompleter, heldOut: string, options: Partial<EvaluationOptions> = {}): EvaluationReport => {
+    const {name, topK, maxWords, perplexity} = {name: 'model', topK: 5, maxWords: 500, perplexity: true, ...options};
+    const startedAt = performance.now();
+    const text = heldOut.normalize('NFC');
+
+    let words = 0;
+    let characters = 0;
+    let keystrokes = 0;
+    let top1 = 0;
+    let inTopK = 0;
+    let reciprocalRanks = 0;
+    let logProbability = 0;
+    let known = 0;
+
+    for (const token of pipeline.tokenize(text, false)) {
+        if (words >= maxWords) break;
+        if (token.kind !== 'word') continue;
+
+        const word = token.raw;
+        const context = text.slice(Math.max(0, token.start - CONTEXT_CHARS), token.start);
+        words++;
+
+        // Предсказание следующего слова до начала набора
+        const rank = model.predict(context, topK).findIndex(_ => matches(_, word));
+        if (rank === 0) top1++;
+        if (rank >= 0) {
+            inTopK++;
+            reciprocalRanks += 1 / (rank + 1);
+        }
+
+        keystrokes += simulateTyping(model, context, word);
+        characters += Array.from(word).length;
+
+        if (perplexity) {
+            const probability = model.scoreWord(context, word);
+            if (probability > 0) {
+                logProbability += Math.log(probability);
+                known++;
+            }
+        }
+    }
+
+    return {
+        name,
+        words,
+        characters,
+        keystrokes,
+        keystrokeSavings: characters > 0 ? 1 - keystrokes / characters : 0,
+        top1Accuracy: words > 0 ? top1 / words : 0,
+        topKAccuracy: words > 0 ? inTopK / words : 0,
+        k: topK,
+        mrr: words > 0 ? reciprocalRanks / words : 0,
+        perplexity: perplexity && known > 0 ? Math.exp(-logProbability / known) : null,
+        oovRate: perplexity && words > 0 ? (words - known) / words : 0,
+        durationMs: Math.round(performance.now() - startedAt),
+    };
+};
+
+/**
+ * Оценивает несколько моделей на одном тексте — отчеты удобно сравнивать как JSON.
+ */
+export const evaluateModels = (
+    models: Record<string, IAutoCompleter>,
+    heldOut: string,
+    options: Partial<Omit<EvaluationOptions, 'name'>> = {},
+): EvaluationReport[] => {
+    return Object.entries(models).map(([name, model]) => evaluate(model, heldOut, {...options, name}));
+};
+
+/**
+ * Сколько нажатий нужно, чтобы набрать слово: по букве, пока первая подсказка не станет этим словом.
+ */
+const simulateTyping = (model: IAutoCompleter, context: string, word: string): number => {
+    const chars = Array.from(word);
+    for (let typed = 0; typed < chars.length; typed++) {
+        const [first] = model.predict(context + chars.slice(0, typed).join(''), 1);
+        if (first && matches(first, word)) {
+            return typed + 1;
+        }
+    }
+    return chars.length;
+};
@@ -0,0 +1,3 @@
+export * from "./evaluate.ts";
+export * from "./split.ts";
+export * from "./tuning.ts";
@@ -0,0 +1,51 @@
+import type {TrainingDocument, TrainingInput} from "../models/interface.ts";
+
+export interface HeldOutSplit {
+    train: TrainingDocument[];
+    heldOut: string;
+}
+
+// Граница предложения, по которой можно отрезать отложенную часть единственного документа
+const SENTENCE_BOUNDARY = /[.!?…]\s+/g;
+
+/**
+ * Отделяет отложенный текст для оценки: последние документы корпуса (около fraction символов).
+ * Если документ один — его конец, отрезанный по границе предложения.
+ * Разбиение детерминированное: одинаковый корпус дает одинаковые части.
+ */
+export const splitHeldOut = (input: TrainingInput, fraction: number = 0.1): HeldOutSplit => {
+    if (!(fraction > 0 && fraction < 1)) {
+        throw new Error(`Held-out fraction must be in (0, 1), got ${fraction}`);
+    }
+
+    const documents = typeof input === 'string' ? [{text: input}] : input;
+    const total = documents.reduce((sum, _) => sum + _.text.length, 0);
+    const target = total * fraction;
+
+    if (documents.length > 1) {
+        const train = [...documents];
+        const heldOut: string[] = [];
+        let length = 0;
+        // Хотя бы один документ остается для обучения
+        while (length < target && train.length > 1) {
+            const document = train.pop()!;
+            heldOut.unshift(document.text);
+            length += document.text.length;
+        }
+        return {train, heldOut: heldOut.join('\n\n')};
+    }
+
+    const [document] = documents;
+    const text = document?.text ?? '';
+    let cut = text.length;
+    for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+        const end = match.index + match[0].length;
+        if (text.length - end < target) break;
+        cut = end;
+    }
+
+    return {
+        train: [{...document, text: text.slice(0, cut)}],
+        heldOut: text.slice(cut),
+    };
+};
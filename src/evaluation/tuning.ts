@@ -0,0 +1,155 @@
+// ==========================================
+// Hyperparameter Search
+// ==========================================
+
+import type {IAutoCompleter, TrainingInput} from "../models/interface.ts";
+import type {ModelConfig, ModelKind} from "../models/config.ts";
+import {createModel} from "../models/index.ts";
+import {evaluate, type EvaluationOptions, type EvaluationReport} from "./evaluate.ts";
+import {splitHeldOut} from "./split.ts";
+
+type ConfigOf<K extends ModelKind> = Extract<ModelConfig, {kind: K}>;
+
+/**
+ * Значения, которые перебираются для каждого параметра конфигурации:
+ * {order: [2, 3, 4], alpha: [0.3, 0.4, 0.5], minCount: [1, 2]}.
+ * Ключи и типы значений — из варианта конфигурации выбранного алгоритма:
+ * опечатка в имени параметра или параметр другого алгоритма не скомпилируются.
+ */
+export type SearchSpace<K extends ModelKind> = {
+    [P in Exclude<keyof ConfigOf<K>, 'kind'>]?: Array<NonNullable<ConfigOf<K>[P]>>;
+};
+
+// Одно сочетание значений из пространства поиска
+type Combination<K extends ModelKind> = Partial<Omit<ConfigOf<K>, 'kind'>>;
+
+export type TuningMetric = 'keystrokeSavings' | 'top1Accuracy' | 'topKAccuracy' | 'mrr' | 'perplexity';
+
+export interface TuningOptions {
+    // grid — все сочетания значений, random — trials случайных сочетаний
+    strategy: 'grid' | 'random';
+    trials: number;
+    // По какой метрике выбирать лучшую конфигурацию (перплексия — чем меньше, тем лучше)
+    metric: TuningMetric;
+    // Доля корпуса, отложенная для оценки
+    heldOutFraction: number;
+    evaluation: Partial<Omit<EvaluationOptions, 'name'>>;
+    // Переобучить лучшую конфигурацию на всем корпусе, включая отложенную часть
+    retrain: boolean;
+    random: () => number;
+}
+
+export interface TuningTrial {
+    config: ModelConfig;
+    report: EvaluationReport;
+}
+
+export interface TuningResult {
+    config: ModelConfig;
+    model: IAutoCompleter;
+    report: EvaluationReport;
+    // Все проверенные конфигурации в порядке проверки — для сравнения в виде JSON
+    trials: TuningTrial[];
+}
+
+/**
+ * Подбирает параметры модели: каждая конфигурация из пространства поиска обучается на корпусе
+ * без отложенной части и оценивается на ней (evaluate). Возвращает лучшую конфигурацию
+ * и обученную модель.
+ */
+export const tune = <K extends ModelKind>(
+    base: ConfigOf<K> & {kind: K},
+    space: SearchSpace<K>,
+    input: TrainingInput,
+    options: Partial<TuningOptions> = {},
+): TuningResult => {
+    const {strategy, trials, metric, heldOutFraction, evaluation, retrain, random} = {
+        strategy: 'grid' as const,
+        trials: 20,
+        metric: 'keystrokeSavings' as const,
+        heldOutFraction: 0.1,
+        evaluation: {},
+        retrain: true,
+        random: Math.random,
+        ...options,
+    };
+
+    const {train, heldOut} = splitHeldOut(input, heldOutFraction);
+    if (!heldOut.trim()) {
+        throw new Error('Corpus is too small to hold out text for tuning');
+    }
+
+    const candidates = strategy === 'grid' ? gridSearch(space) : randomSearch(space, trials, random);
+    if (candidates.length === 0) {
+        throw new Error('Search space is empty');
+    }
+    const results: Array<TuningTrial & {model: IAutoCompleter}> = [];
+
+    for (const values of candidates) {
+        const config: ModelConfig = {...base, ...values};
+        const model = createModel(config);
+        model.train(train);
+        results.push({config, model, report: evaluate(model, heldOut, {...evaluation, name: JSON.stringify(values)})});
+    }
+
+    const best = results.reduce((a, b) => isBetter(b.report, a.report, metric) ? b : a);
+
+    let model = best.model;
+    if (retrain) {
+        model = createModel(best.config);
+        model.train(input);
+    }
+
+    return {
+        config: best.config,
+        model,
+        report: best.report,
+        trials: results.map(({config, report}) => ({config, report})),
+    };
+};
+
+const isBetter = (candidate: EvaluationReport, current: EvaluationReport, metric: TuningMetric): boolean => {
+    if (metric === 'perplexity') {
+        return (candidate.perplexity ?? Infinity) < (current.perplexity ?? Infinity);
+    }
+    return candidate[metric] > current[metric];
+};
+
+/**
+ * Параметры пространства поиска с их значениями (пропущенные ключи не в счет).
+ */
+const dimensions = <K extends ModelKind>(space: SearchSpace<K>): Array<[string, unknown[]]> =>
+    Object.entries(space).filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]));
+
+/**
+ * Декартово произведение значений всех параметров.
+ */
+const gridSearch = <K extends ModelKind>(space: SearchSpace<K>): Array<Combination<K>> => {
+    return dimensions(space).reduce<Array<Combination<K>>>(
+        (combinations, [key, values]) => combinations.flatMap(combination => values.map(value => ({...combination, [key]: value}))),
+        [{}]
+    );
+};
+
+/**
+ * trials различных случайных сочетаний (меньше, если сочетаний в пространстве меньше).
+ */
+const randomSearch = <K extends ModelKind>(space: SearchSpace<K>, trials: number, random: () => number): Array<Combination<K>> => {
+    const size = dimensions(space).reduce((product, [, values]) => product * values.length, 1);
+    const seen = new Set<string>();
+    const result: Array<Combination<K>> = [];
+
+    while (result.length < Math.min(trials, size)) {
+        const combination = dimensions(space).reduce<Combination<K>>(
+            (combination, [key, values]) => ({...combination, [key]: values[Math.floor(random() * values.length)]}),
+            {}
+        );
+        const key = JSON.stringify(combination);
+        if (seen.has(key)) continue;
+
+        seen.add(key);
+        result.push(combination);
+    }
+
+    return result;
+};
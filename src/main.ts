@@ -1,7 +1,15 @@
 import './style.css'
 import {Textarea} from "./ui/textarea";
-import {getArticlesFromWikipedia} from "./api";
+import {toCorpusLoader, WikipediaApiSource} from "./corpus";
 import {modelAbstractFactory} from "./models";
+import {modelConfigFromQuery, withLocale} from "./models/config.ts";
+import {SpellingCorrector} from "./models/spelling/corrector.ts";
+import {LanguageRegistry} from "./models/language";
+import {PersonalizedCompleter} from "./models/personal";
+import {DocumentCacheCompleter} from "./models/document";
+
+// Проверка орфографии дороже подсказки, запускаем ее, когда пользователь сделал паузу
+const SPELLCHECK_DELAY = 300
 
 
 async function main() {
@@ -13,23 +21,76 @@ async function main() {
         'История солнечных часов',
         'История шахмат',
     ]
-    const data = await getArticlesFromWikipedia(articles).then((articles) => {
-        return Array.from(articles.values()).join('\n\n')
-    })
+    const englishArticles = [
+        'History of chess',
+        'Sundial',
+        'French Revolution',
+    ]
 
-    const model = modelAbstractFactory()
-    model.train(data)
+    // Пользователи переключаются между русским и английским в одном поле:
+    // подсказки дает модель языка, на котором набирается текст
+    const config = modelConfigFromQuery(location.search)
+    const [russian, english] = await Promise.all([
+        modelAbstractFactory(config, toCorpusLoader(new WikipediaApiSource(articles))),
+        modelAbstractFactory(withLocale(config, 'en'), toCorpusLoader(new WikipediaApiSource(englishArticles, 'en'))),
+    ])
+    const registry = new LanguageRegistry()
+        .register('ru', russian)
+        .register('en', english)
+
+    // Модель дообучается на том, что набирает пользователь, и хранится в браузере
+    const personal = new PersonalizedCompleter(registry)
+    await personal.restore()
+    textarea.onCommit((text, replaced) => personal.learn(text, replaced))
+    textarea.onAccept((_, text) => personal.accept(text))
+    createPersonalControls(document.querySelector('#app')!, personal)
+
+    // Слова текущего документа ("солнечные часы") поднимаются выше в подсказках
+    const model = new DocumentCacheCompleter(personal)
 
     console.log(model)
 
+    const corrector = new SpellingCorrector(model)
+    let spellcheckTimer: ReturnType<typeof setTimeout> | undefined
+
     textarea.onInput((v) => {
+        model.update(v)
         const suggestions = model
             .predict(v)
 
-        const res = suggestions.map((_) => _.word)
-        textarea.setSuggestions(res)
+        textarea.setSuggestions(suggestions)
+
+        clearTimeout(spellcheckTimer)
+        spellcheckTimer = setTimeout(() => {
+            textarea.setCorrections(corrector.check(v))
+        }, SPELLCHECK_DELAY)
     })
 }
 
+function createPersonalControls(container: HTMLElement, model: PersonalizedCompleter) {
+    const controls = document.createElement('div')
+
+    const exportButton = document.createElement('button')
+    exportButton.type = 'button'
+    exportButton.textContent = 'Экспорт моей модели'
+    exportButton.onclick = () => {
+        const link = document.createElement('a')
+        link.href = URL.createObjectURL(new Blob([model.exportArpa()], {type: 'text/plain'}))
+        link.download = 'personal-model.arpa'
+        link.click()
+        URL.revokeObjectURL(link.href)
+    }
+
+    const resetButton = document.createElement('button')
+    resetButton.type = 'button'
+    resetButton.textContent = 'Забыть мои данные'
+    resetButton.onclick = () => {
+        model.reset()
+    }
+
+    controls.append(exportButton, resetButton)
+    container.appendChild(controls)
+}
+
 
 main()
\ No newline at end of file
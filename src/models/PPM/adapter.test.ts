@@ -0,0 +1,28 @@
+import {describe, expect, it} from 'vitest';
+import {getPPMModel} from "./adapter.ts";
+
+const CORPUS = 'Привет, мир. Великая революция началась. Великая река течет. Революции бывают разные. Привет всем.';
+
+describe('PPMAutoCompleter', () => {
+    const model = getPPMModel(3);
+    model.train(CORPUS);
+
+    it('дописывает недописанное слово, а не предсказывает следующее', () => {
+        const words = model.predict('Великая рево').map(_ => _.word);
+        expect(words[0]).toBe('революция');
+        expect(words.every(word => word.startsWith('рево'))).toBe(true);
+    });
+
+    it('сохраняет заглавную букву фрагмента', () => {
+        expect(model.predict('Рев').map(_ => _.word)).toEqual(expect.arrayContaining(['Революция', 'Революции']));
+    });
+
+    it('не предлагает само набранное слово', () => {
+        expect(model.predict('Великая река').map(_ => _.word)).not.toContain('река');
+    });
+
+    it('после пробела предсказывает следующее слово', () => {
+        const words = model.predict('Великая ', 2).map(_ => _.word);
+        expect(words.sort()).toEqual(['революция', 'река']);
+    });
+});
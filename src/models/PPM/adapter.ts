@@ -0,0 +1,105 @@
+// ==========================================
+// PPM -> IAutoCompleter Adapter
+// ==========================================
+
+import type {IAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import {toTrainingDocuments} from "../training.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+import {recase} from "../casing.ts";
+import {PPMModel} from "./google.ts";
+import {WordTokenizer} from "./tokenizer/index.ts";
+
+// Токен считается словом, если в нем есть хотя бы одна буква или цифра
+const WORD_TOKEN = /[\p{L}\p{N}]/u;
+
+// Знаки, после которых начинается новое предложение (terminators WordTokenizer)
+const SENTENCE_END = /^[.?!]+$/;
+
+/**
+ * Адаптер PPM-C модели (google.ts) к интерфейсу автокомплита.
+ * Принимает сырой текст, токенизирует его WordTokenizer'ом и
+ * возвращает вероятности PPM как Suggestion.score.
+ */
+export class PPMAutoCompleter implements IAutoCompleter {
+    private readonly model: PPMModel;
+    private readonly tokenizer: WordTokenizer;
+
+    constructor(order: number, tokenizer: WordTokenizer = new WordTokenizer()) {
+        this.model = new PPMModel({order});
+        this.tokenizer = tokenizer;
+    }
+
+    /**
+     * Каждый документ обучается отдельно, чтобы контексты не переходили между ними.
+     * Веса документов не учитываются: PPM-C оценивает вероятность ухода по числу
+     * различных продолжений, и дробные счетчики эту оценку не улучшают.
+     */
+    public train(input: TrainingInput): void {
+        for (const {text} of toTrainingDocuments(input)) {
+            this.model.train(this.tokenizer.tokenize(text));
+        }
+    }
+
+    /**
+     * Если последнее слово не дописано ("Великая рево"), дополняет его словами словаря
+     * с таким началом; предыдущие слова — контекст. Иначе предсказывает следующее слово.
+     */
+    public predict(inputText: string, topK: number = 5): Suggestion[] {
+        const {head, fragment} = splitTrailingFragment(inputText);
+        const history = this.tokenizer.tokenize(head);
+
+        const last = history[history.length - 1];
+        const sentenceStart = last === undefined || SENTENCE_END.test(last);
+        const suggestions = fragment
+            ? this.completeFragment(fragment, history, topK)
+            : this.predictNext(history, topK);
+
+        return suggestions.map(suggestion => ({...suggestion, word: recase(suggestion.word, {sentenceStart, fragment})}));
+    }
+
+    public scoreWord(context: string, word: string): number {
+        const [token] = this.tokenizer.tokenize(word);
+        if (!token) return 0;
+
+        return this.model.probability(this.tokenizer.tokenize(context), token);
+    }
+
+    private predictNext(history: string[], topK: number): Suggestion[] {
+        const results: Suggestion[] = [];
+        for (const {token, probability} of this.model.predict(history)) {
+            // Знаки препинания WordTokenizer сохраняет в потоке для контекста,
+            // но предлагать их как следующее "слово" не нужно
+            if (!WORD_TOKEN.test(token)) continue;
+
+            results.push({word: token, score: probability});
+            if (results.length >= topK) break;
+        }
+
+        return results;
+    }
+
+    /**
+     * Слова словаря, начинающиеся с фрагмента (кроме самого фрагмента), по вероятности в контексте.
+     */
+    private completeFragment(fragment: string, history: string[], topK: number): Suggestion[] {
+        const prefix = this.tokenizer.normalize(fragment);
+
+        const results: Suggestion[] = [];
+        for (const token of this.model.getVocabulary()) {
+            if (token === prefix || !token.startsWith(prefix) || !WORD_TOKEN.test(token)) continue;
+            results.push({word: token, score: this.model.probability(history, token)});
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    public getVocabulary(): Iterable<string> {
+        return Array.from(this.model.getVocabulary()).filter(token => WORD_TOKEN.test(token));
+    }
+}
+
+export const getPPMModel = (order: number = 3, locale: string = 'ru') => {
+    return new PPMAutoCompleter(order, new WordTokenizer({locale}));
+};
@@ -0,0 +1,120 @@
+// ==========================================
+// Character-level PPM (Out-of-vocabulary Completion)
+// ==========================================
+
+import type {IFragmentCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import type {BinaryReader, BinaryWriter} from "../serialization/binary.ts";
+import {PPMModel} from "./google.ts";
+import {toTrainingDocuments} from "../training.ts";
+
+// Все, что не может быть частью слова, схлопывается в один пробел — границу слова
+const NON_WORD = /[^\p{L}\p{N}-]+/gu;
+const BOUNDARY = ' ';
+
+// Ограничения поиска: длина дописываемого хвоста и ширина луча
+const MAX_SUFFIX_LENGTH = 24;
+const BEAM_WIDTH = 8;
+
+// Завершения менее вероятные, чем это, — скорее шум, чем слово ("неволюция" для "не")
+const MIN_PROBABILITY = 0.05;
+
+interface Beam {
+    suffix: string;
+    probability: number;
+}
+
+/**
+ * Символьная PPM-модель для дописывания слов, которых нет в словаре.
+ * Использует ту же PPM-C модель с полным исключением (google.ts), только токенами
+ * являются отдельные символы. Дописывание — лучевой поиск (beam search) до первой границы слова.
+ */
+export class CharPPMCompleter implements IFragmentCompleter {
+    private readonly model: PPMModel;
+    private readonly order: number;
+    private readonly minProbability: number;
+
+    constructor(order: number = 4, minProbability: number = MIN_PROBABILITY) {
+        this.order = order;
+        this.minProbability = minProbability;
+        this.model = new PPMModel({order});
+    }
+
+    /**
+     * Веса документов не учитываются: fallback нужен только для формы слов, а не их частот.
+     */
+    public train(input: TrainingInput): void {
+        for (const {text} of toTrainingDocuments(input)) {
+            this.model.train(Array.from(this.normalize(text)));
+        }
+    }
+
+    /**
+     * Возвращает наиболее вероятные завершения слова `fragment` с вероятностью не ниже minProbability.
+     * @param fragment Недописанное слово.
+     * @param context Текст перед ним: последние символы служат контекстом для PPM.
+     */
+    public complete(fragment: string, context: string, topK: number = 5): Suggestion[] {
+        const prefix = this.normalize(fragment).trim();
+        if (!prefix) return [];
+
+        // Контекст для первого символа — хвост предыдущего текста вместе с фрагментом
+        const history = Array.from(this.normalize(context + fragment)).slice(-this.order);
+
+        let beams: Beam[] = [{suffix: '', probability: 1}];
+        const finished: Suggestion[] = [];
+
+        for (let step = 0; step < MAX_SUFFIX_LENGTH && beams.length > 0; step++) {
+            const expanded: Beam[] = [];
+
+            for (const beam of beams) {
+                const predictions = this.model.predict([...history, ...Array.from(beam.suffix)]);
+
+                for (const {token, probability} of predictions.slice(0, BEAM_WIDTH)) {
+                    const next = beam.probability * probability;
+                    // Удлинение только уменьшает вероятность: такой луч порог уже не пройдет
+                    if (next < this.minProbability) continue;
+
+                    if (token === BOUNDARY) {
+                        // Пустое завершение ничего не дает пользователю
+                        if (beam.suffix) {
+                            finished.push({word: prefix + beam.suffix, score: next});
+                        }
+                    } else {
+                        expanded.push({suffix: beam.suffix + token, probability: next});
+                    }
+                }
+            }
+
+            beams = expanded
+                .sort((a, b) => b.probability - a.probability)
+                .slice(0, BEAM_WIDTH);
+
+            // Дальнейшее удлинение только уменьшает вероятность: если лучший луч
+            // уже хуже худшего из top-K завершенных, продолжать бессмысленно
+            const best = finished.sort((a, b) => b.score - a.score).slice(0, topK);
+            if (best.length >= topK && (beams[0]?.probability ?? 0) < best[best.length - 1].score) {
+                break;
+            }
+        }
+
+        return finished
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    public serialize(writer: BinaryWriter): void {
+        this.model.serialize(writer);
+    }
+
+    public deserialize(reader: BinaryReader): void {
+        this.model.deserialize(reader);
+    }
+
+    private normalize(text: string): string {
+        return text
+            .normalize('NFC')
+            .toLocaleLowerCase()
+            .replace(/ё/g, 'е')
+            .replace(NON_WORD, BOUNDARY);
+    }
+}
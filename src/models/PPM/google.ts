@@ -1,3 +1,5 @@
+import type {BinaryReader, BinaryWriter, ISerializable} from "../serialization/binary.ts";
+
 /**
  * Конфигурация для модели PPM.
  */
@@ -55,11 +57,11 @@ class ContextNode {
  * Класс Prediction by Partial Matching (PPM).
  * Реализует вариант PPM-C с полным исключением (Full Exclusion).
  */
-export class PPMModel {
+export class PPMModel implements ISerializable {
     private readonly maxOrder: number;
-    private readonly root: ContextNode;
+    private root: ContextNode;
     // Глобальный словарь всех уникальных слов (для Order -1)
-    private readonly vocabulary: Set<string>;
+    private vocabulary: Set<string>;
 
     constructor(config: PPMConfig = { order: 3 }) {
         this.maxOrder = config.order;
@@ -120,8 +122,103 @@ export class PPMModel {
             .sort((a, b) => b.probability - a.probability);
     }
 
+    /**
+     * Вероятность одного токена после истории — то же значение, что дает predict(history),
+     * но без расчета и сортировки распределения по всему словарю.
+     * Спуск по контекстам останавливается на первом узле, где токен встречался:
+     * на нижних уровнях он был бы исключен.
+     */
+    public probability(history: string[], token: string): number {
+        // Корень видел каждое слово словаря, поэтому до уровня Order -1 дело не доходит
+        if (!this.vocabulary.has(token)) return 0;
+
+        let context = history.slice(-this.maxOrder);
+        let weight = 1.0;
+
+        while (weight >= 1e-9) {
+            const node = this.findNode(context);
+            if (node) {
+                const denominator = node.totalCount + node.distinctCount;
+                const count = node.counts.get(token);
+                if (count !== undefined) return count / denominator * weight;
+
+                weight *= node.distinctCount / denominator;
+            }
+
+            if (context.length === 0) break;
+            context = context.slice(1);
+        }
+
+        return 0;
+    }
+
+    /**
+     * Все токены, встречавшиеся при обучении.
+     */
+    public getVocabulary(): ReadonlySet<string> {
+        return this.vocabulary;
+    }
+
+    /**
+     * Записывает словарь и дерево контекстов (рекурсивно, в глубину).
+     */
+    public serialize(writer: BinaryWriter): void {
+        writer.writeVarUint(this.maxOrder);
+        writer.writeVarUint(this.vocabulary.size);
+        this.vocabulary.forEach(token => writer.writeString(token));
+        this.writeNode(writer, this.root);
+    }
+
+    public deserialize(reader: BinaryReader): void {
+        const order = reader.readVarUint();
+        if (order !== this.maxOrder) {
+            throw new Error(`PPM order mismatch: expected ${this.maxOrder}, got ${order}`);
+        }
+
+        const vocabSize = reader.readVarUint();
+        this.vocabulary = new Set();
+        for (let i = 0; i < vocabSize; i++) {
+            this.vocabulary.add(reader.readString());
+        }
+        this.root = this.readNode(reader);
+    }
+
     // --- Private Helpers ---
 
+    private writeNode(writer: BinaryWriter, node: ContextNode): void {
+        writer.writeVarUint(node.counts.size);
+        for (const [token, count] of node.counts) {
+            writer.writeString(token);
+            writer.writeVarUint(count);
+        }
+
+        writer.writeVarUint(node.children.size);
+        for (const [token, child] of node.children) {
+            writer.writeString(token);
+            this.writeNode(writer, child);
+        }
+    }
+
+    private readNode(reader: BinaryReader): ContextNode {
+        const node = new ContextNode();
+
+        const countsSize = reader.readVarUint();
+        for (let i = 0; i < countsSize; i++) {
+            const token = reader.readString();
+            const count = reader.readVarUint();
+            node.counts.set(token, count);
+            node.totalCount += count;
+        }
+
+        const childrenSize = reader.readVarUint();
+        for (let i = 0; i < childrenSize; i++) {
+            const token = reader.readString();
+            node.children.set(token, this.readNode(reader));
+        }
+
+        return node;
+    }
+
     /**
      * Обновляет Trie дерево: находит (или создает) узел контекста и инкрементирует токен.
      */
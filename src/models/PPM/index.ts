@@ -7,11 +7,14 @@ interface PPMNode {
 export class PPMModel {
     private readonly root: PPMNode;
     private readonly maxOrder: number;
+    // Доля равномерного распределения при сглаживании (для неизвестных слов)
+    private readonly alpha: number;
     private readonly vocabulary: Set<string>;
 
-    constructor(maxOrder: number = 4) {
+    constructor(maxOrder: number = 4, alpha: number = 0.1) {
         this.root = { children: new Map(), count: 0, total: 0 };
         this.maxOrder = maxOrder;
+        this.alpha = alpha;
         this.vocabulary = new Set();
     }
 
@@ -73,8 +76,7 @@ export class PPMModel {
     predictProbabilities(context: string[]): Map<string, number> {
         const probabilities = new Map<string, number>();
 
-        // Добавляем сглаживание для неизвестных слов
-        const alpha = 0.1;
+        const alpha = this.alpha;
         const vocabSize = this.vocabulary.size;
 
         // Вычисляем вероятности для каждого слова в словаре
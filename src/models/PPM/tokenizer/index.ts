@@ -1,77 +1,44 @@
-const DEFAULT_EXCEPTIONS = new Set([
-    "кое-что",
-    "кое-какой",
-    "кое-куда",
-    "что-то",
-    "кто-то",
-    "как-нибудь",
-    "почему-то",
-    "по-моему",
-    "то-то",
-    "где-то",
-    "куда-нибудь",
-    "когда-нибудь"
-]);
-
+import {nfcNormalizer, TokenizerPipeline, yoNormalizer} from "../../tokenizer/index.ts";
 
 export interface TokenizerOptions {
     lowercase?: boolean;
+    locale?: string; // Локаль приведения к нижнему регистру
     keepPunctuation?: boolean;
     eosToken?: string | null;
     normalizeYo?: boolean; // "ё" → "е"
-    exceptionWords?: string[]; // Дополнительные пользовательские исключения
 }
 
+// Слова с дефисами, апострофами, числа с пунктуацией
+const WORD_PATTERN = /[\p{Letter}\p{Number}]+(?:[-–—'’][\p{Letter}\p{Number}]+)*/u;
+
 export class WordTokenizer {
-    private lowercase: boolean;
-    private keepPunctuation: boolean;
     private eosToken: string | null;
-    private normalizeYo: boolean;
-    private exceptions: Set<string>;
+    private pipeline: TokenizerPipeline;
 
     constructor(options: TokenizerOptions = {}) {
-        this.lowercase = options.lowercase ?? true;
-        this.keepPunctuation = options.keepPunctuation ?? true;
         this.eosToken = options.eosToken ?? "";
-        this.normalizeYo = options.normalizeYo ?? true;
 
-        this.exceptions = new Set([
-            ...DEFAULT_EXCEPTIONS,
-            ...(options.exceptionWords ?? [])
-        ]);
+        // PPM не нужны границы предложений: знаки препинания остаются обычными токенами
+        this.pipeline = new TokenizerPipeline({
+            normalizers: (options.normalizeYo ?? true) ? [nfcNormalizer, yoNormalizer] : [nfcNormalizer],
+            lowercase: options.lowercase ?? true,
+            locale: options.locale ?? 'ru',
+            wordPattern: WORD_PATTERN,
+            terminators: ".?!",
+            keepPunctuation: options.keepPunctuation ?? true,
+            sentenceMarkers: false,
+        });
     }
 
-    tokenize(text: string): string[] {
-        if (this.lowercase) {
-            text = text.toLowerCase();
-        }
-
-        if (this.normalizeYo) {
-            text = text.replace(/ё/g, "е");
-        }
-
-        const tokens: string[] = [];
-
-        // Слова с дефисами, апострофами, числа с пунктуацией
-        const wordRegex =
-            /[\p{Letter}\p{Number}]+(?:[--–—'\u2019][\p{Letter}\p{Number}]+)*/u;
-
-        let match: RegExpExecArray | null;
-        let lastIndex = 0;
-        const regex = new RegExp(wordRegex.source, "gu");
-
-        while ((match = regex.exec(text)) !== null) {
-            const word = match[0];
-            const before = text.slice(lastIndex, match.index);
-
-            this.pushPunctTokens(before, tokens);
-
-            tokens.push(this.handleExceptions(word));
-            lastIndex = match.index + word.length;
-        }
+    /**
+     * Недописанное слово в том виде, в каком такие слова попадают в словарь ("Ёлк" → "елк").
+     */
+    normalize(text: string): string {
+        return this.pipeline.normalize(text);
+    }
 
-        const tail = text.slice(lastIndex);
-        this.pushPunctTokens(tail, tokens);
+    tokenize(text: string): string[] {
+        const tokens = this.pipeline.tokenize(text).map((token) => token.text);
 
         if (this.eosToken) {
             tokens.push(this.eosToken);
@@ -79,18 +46,4 @@ export class WordTokenizer {
 
         return tokens;
     }
-
-    private pushPunctTokens(chunk: string, output: string[]) {
-        if (!this.keepPunctuation) return;
-        for (const ch of [...chunk]) {
-            if (ch.trim() !== "") {
-                output.push(ch);
-            }
-        }
-    }
-
-    private handleExceptions(word: string): string {
-        if (this.exceptions.has(word)) return word;
-        return word;
-    }
 }
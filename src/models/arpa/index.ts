@@ -0,0 +1,13 @@
+import {ArpaModel} from "./model.ts";
+import {parseArpa} from "./reader.ts";
+import type {IAutoCompleter} from "../interface.ts";
+
+export {writeArpa} from "./writer.ts";
+
+/**
+ * Строит автокомплитер из текста ARPA-файла.
+ * <s>, </s> и <unk> отображаются на AdvancedTokenizer.BOS, EOS и UNK.
+ */
+export const importArpa = (text: string): IAutoCompleter => {
+    return new ArpaModel(parseArpa(text));
+};
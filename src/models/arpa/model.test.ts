@@ -0,0 +1,41 @@
+import {describe, expect, it} from 'vitest';
+import {ArpaModel} from "./model.ts";
+import {parseArpa} from "./reader.ts";
+
+const ARPA = `\\data\\
+ngram 1=6
+ngram 2=3
+
+\\1-grams:
+-1 <s> -0.5
+-0.6 Революция -0.2
+-0.9 революция -0.3
+-0.9 река -0.3
+-0.5 великая -0.1
+-1 </s>
+
+\\2-grams:
+-0.1 великая революция
+-0.9 великая река
+-0.2 революция </s>
+
+\\end\\
+`;
+
+describe('ArpaModel', () => {
+    const model = new ArpaModel(parseArpa(ARPA));
+
+    it('дописывает недописанное слово с учетом контекста', () => {
+        expect(model.predict('Великая ре').map(_ => _.word)).toEqual(['революция', 'река']);
+    });
+
+    it('сохраняет заглавную букву фрагмента', () => {
+        expect(model.predict('Ре').map(_ => _.word)).toEqual(['Революция', 'Река']);
+    });
+
+    it('складывает вероятности слов, совпавших после нормализации', () => {
+        // Отступ от <s> (10^-0.5) к униграмме 10^-0.6 + 10^-0.9
+        expect(model.scoreWord('', 'революция')).toBeCloseTo(Math.pow(10, -0.5) * (Math.pow(10, -0.6) + Math.pow(10, -0.9)));
+        expect(model.predict('', 10).filter(_ => _.word === 'революция')).toHaveLength(1);
+    });
+});
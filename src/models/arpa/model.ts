@@ -0,0 +1,158 @@
+// ==========================================
+// Backoff Model loaded from ARPA
+// ==========================================
+
+import type {IAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import {AdvancedTokenizer} from "../stupid-backoff/tokenizer.ts";
+import type {TokenID} from "../stupid-backoff/tokenizer.ts";
+import type {NGramKey} from "../stupid-backoff/store.ts";
+import type {ArpaData} from "./reader.ts";
+import {fromArpaWord, LOG_ZERO} from "./symbols.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+import {recase} from "../casing.ts";
+
+interface ArpaScore {
+    logProb: number;
+    backoff: number;
+}
+
+const logSumExp10 = (a: number, b: number): number => {
+    const max = Math.max(a, b);
+    return max + Math.log10(1 + Math.pow(10, Math.min(a, b) - max));
+};
+
+/**
+ * Две записи, ставшие после нормализации одной N-граммой.
+ * Если различается только последнее слово ("москва" и "Москва" после одного контекста),
+ * вероятности складываются. Если слились контексты, сумма могла бы превысить единицу —
+ * берется вероятность из более вероятной записи. Вес отката — от более вероятной записи.
+ */
+const mergeScores = (a: ArpaScore, b: ArpaScore, sameContext: boolean): ArpaScore => ({
+    logProb: sameContext ? logSumExp10(a.logProb, b.logProb) : Math.max(a.logProb, b.logProb),
+    backoff: (b.logProb > a.logProb ? b : a).backoff,
+});
+
+/**
+ * Классическая backoff-модель (Katz-style), заданная готовыми вероятностями:
+ * P(w|h) = 10^logProb(h+w),                  если N-грамма есть в файле
+ *        = 10^backoff(h) * P(w|h'),          иначе (h' — контекст без первого слова)
+ *
+ * В отличие от Stupid Backoff, score здесь — настоящая вероятность
+ * (если исходный ARPA-файл был нормирован).
+ */
+export class ArpaModel implements IAutoCompleter {
+    private readonly tokenizer: AdvancedTokenizer;
+    private readonly n: number;
+    private readonly scores: Map<NGramKey, ArpaScore> = new Map();
+    private readonly contextMap: Map<NGramKey, Set<TokenID>> = new Map();
+
+    constructor(data: ArpaData, tokenizer: AdvancedTokenizer = new AdvancedTokenizer()) {
+        this.tokenizer = tokenizer;
+        this.n = data.order;
+
+        // Контекст записи до нормализации: по нему видно, что именно слилось в одну N-грамму
+        const sourceContexts = new Map<NGramKey, string>();
+
+        for (const entry of data.entries) {
+            const ids = entry.words.map(word => this.tokenizer.registerToken(this.importWord(word)));
+            const key = ids.join(',');
+            const sourceContext = entry.words.slice(0, -1).join(' ');
+            const existing = this.scores.get(key);
+            if (existing) {
+                this.scores.set(key, mergeScores(existing, entry, sourceContexts.get(key) === sourceContext));
+            } else {
+                this.scores.set(key, {logProb: entry.logProb, backoff: entry.backoff});
+                sourceContexts.set(key, sourceContext);
+            }
+
+            const context = ids.slice(0, -1);
+            const contextKey = context.join(',');
+            if (!this.contextMap.has(contextKey)) {
+                this.contextMap.set(contextKey, new Set());
+            }
+            this.contextMap.get(contextKey)!.add(ids[ids.length - 1]);
+        }
+    }
+
+    /**
+     * Вероятности импортированной модели фиксированы, дообучение невозможно.
+     */
+    public train(_input: TrainingInput): void {
+        throw new Error('ARPA model is read-only and cannot be trained');
+    }
+
+    /**
+     * Недописанное последнее слово ("Великая рево") дополняется словами словаря с таким началом,
+     * предыдущие слова — контекст. Иначе кандидаты — продолжения контекста.
+     */
+    public predict(inputText: string, topK: number = 5): Suggestion[] {
+        const {head, fragment} = splitTrailingFragment(inputText);
+        const context = this.getContext(head);
+
+        const candidates = new Set<TokenID>();
+        if (fragment) {
+            const prefix = this.tokenizer.normalize(fragment);
+            this.tokenizer.getByPrefix(prefix)
+                .filter(id => this.tokenizer.getWord(id) !== prefix)
+                .forEach(id => candidates.add(id));
+        } else {
+            for (let i = 0; i <= context.length; i++) {
+                this.contextMap.get(context.slice(i).join(','))?.forEach(id => candidates.add(id));
+            }
+        }
+
+        const results: Suggestion[] = [];
+        for (const candidateId of candidates) {
+            // Служебные токены пользователю не предлагаем
+            if (
+                candidateId === this.tokenizer.BOS_ID ||
+                candidateId === this.tokenizer.EOS_ID ||
+                candidateId === this.tokenizer.UNK_ID
+            ) continue;
+            results.push({
+                // Регистра слов в ARPA-файле модель не знает: сохраняем только регистр набранного фрагмента
+                word: recase(this.tokenizer.getWord(candidateId), {sentenceStart: false, fragment}),
+                score: Math.pow(10, this.getLogProb(candidateId, context)),
+            });
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        const ids = this.getContext(context);
+        return Math.pow(10, this.getLogProb(this.tokenizer.getId(this.tokenizer.normalize(word)), ids));
+    }
+
+    public getVocabulary(): Iterable<string> {
+        return this.tokenizer.getWords();
+    }
+
+    /**
+     * Слово из файла в том виде, в каком его вернет токенизатор контекста ("Москва" → "москва").
+     * Без этого слова с заглавной буквы или с "ё" были бы недостижимы при предсказании.
+     */
+    private importWord(word: string): string {
+        const special = fromArpaWord(word);
+        return special === word ? this.tokenizer.normalize(word) || word : special;
+    }
+
+    private getContext(text: string): TokenID[] {
+        const tokens = this.tokenizer.tokenizeContext(text);
+        return tokens.slice(Math.max(0, tokens.length - (this.n - 1)));
+    }
+
+    private getLogProb(candidate: TokenID, context: TokenID[]): number {
+        const entry = this.scores.get([...context, candidate].join(','));
+        if (entry) return entry.logProb;
+
+        if (context.length === 0) {
+            return this.scores.get(String(this.tokenizer.UNK_ID))?.logProb ?? LOG_ZERO;
+        }
+
+        const backoff = this.scores.get(context.join(','))?.backoff ?? 0;
+        return backoff + this.getLogProb(candidate, context.slice(1));
+    }
+}
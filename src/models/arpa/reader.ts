@@ -0,0 +1,95 @@
+// ==========================================
+// ARPA Import (Parser)
+// ==========================================
+
+export interface ArpaEntry {
+    words: string[];
+    logProb: number;
+    // log10 веса отступа; 0, если в файле не указан (log10(1))
+    backoff: number;
+}
+
+export interface ArpaData {
+    order: number;
+    entries: ArpaEntry[];
+}
+
+/**
+ * Разбирает текст в формате ARPA.
+ * Проверяет, что количество N-грамм каждого порядка совпадает с заголовком \data\.
+ */
+export const parseArpa = (text: string): ArpaData => {
+    const lines = text.split(/\r?\n/);
+    const declared = new Map<number, number>();
+    const actual = new Map<number, number>();
+    const entries: ArpaEntry[] = [];
+
+    let section: 'preamble' | 'data' | 'ngrams' | 'end' = 'preamble';
+    let currentOrder = 0;
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].trim();
+        if (line === '' || section === 'end') continue;
+
+        if (line === '\\data\\') {
+            section = 'data';
+            continue;
+        }
+
+        if (line === '\\end\\') {
+            section = 'end';
+            continue;
+        }
+
+        const header = line.match(/^\\(\d+)-grams:$/);
+        if (header) {
+            section = 'ngrams';
+            currentOrder = Number(header[1]);
+            if (!declared.has(currentOrder)) {
+                throw new Error(`ARPA: section \\${currentOrder}-grams is not declared in \\data\\`);
+            }
+            continue;
+        }
+
+        if (section === 'data') {
+            const count = line.match(/^ngram\s+(\d+)\s*=\s*(\d+)$/);
+            if (!count) {
+                throw new Error(`ARPA: malformed \\data\\ line ${index + 1}: "${line}"`);
+            }
+            declared.set(Number(count[1]), Number(count[2]));
+            continue;
+        }
+
+        if (section === 'ngrams') {
+            const fields = line.split(/\s+/);
+            if (fields.length !== currentOrder + 1 && fields.length !== currentOrder + 2) {
+                throw new Error(`ARPA: expected ${currentOrder}-gram at line ${index + 1}: "${line}"`);
+            }
+
+            const logProb = Number(fields[0]);
+            const backoff = fields.length === currentOrder + 2 ? Number(fields[currentOrder + 1]) : 0;
+            if (Number.isNaN(logProb) || Number.isNaN(backoff)) {
+                throw new Error(`ARPA: invalid number at line ${index + 1}: "${line}"`);
+            }
+
+            entries.push({words: fields.slice(1, currentOrder + 1), logProb, backoff});
+            actual.set(currentOrder, (actual.get(currentOrder) ?? 0) + 1);
+        }
+        // Всё до \data\ (комментарии тулкитов) игнорируем
+    }
+
+    if (section !== 'end') {
+        throw new Error('ARPA: missing \\end\\ marker');
+    }
+
+    for (const [order, count] of declared) {
+        if ((actual.get(order) ?? 0) !== count) {
+            throw new Error(`ARPA: header declares ${count} ${order}-grams, found ${actual.get(order) ?? 0}`);
+        }
+    }
+
+    return {
+        order: Math.max(0, ...declared.keys()),
+        entries,
+    };
+};
@@ -0,0 +1,19 @@
+import {AdvancedTokenizer} from "../stupid-backoff/tokenizer.ts";
+
+// В ARPA-файлах специальные токены записываются в нижнем регистре (SRILM, KenLM)
+const TO_ARPA: Record<string, string> = {
+    [AdvancedTokenizer.BOS]: '<s>',
+    [AdvancedTokenizer.EOS]: '</s>',
+    [AdvancedTokenizer.UNK]: '<unk>',
+};
+
+const FROM_ARPA: Record<string, string> = Object.fromEntries(
+    Object.entries(TO_ARPA).map(([ours, arpa]) => [arpa, ours])
+);
+
+// Логарифм "нулевой" вероятности по соглашению ARPA
+export const LOG_ZERO = -99;
+
+export const toArpaWord = (word: string): string => TO_ARPA[word] ?? word;
+
+export const fromArpaWord = (word: string): string => FROM_ARPA[word] ?? word;
@@ -0,0 +1,64 @@
+// ==========================================
+// ARPA Export
+// ==========================================
+
+import type {INGramStore} from "../stupid-backoff/store.ts";
+import type {ITokenizer, TokenID} from "../stupid-backoff/tokenizer.ts";
+import {LOG_ZERO, toArpaWord} from "./symbols.ts";
+
+/**
+ * Сериализует счетчики N-грамм в текстовый формат ARPA.
+ *
+ * Для Stupid Backoff:
+ * log10 P(w|h) = log10(count(h+w) / count(h)),  для униграмм log10(count(w) / total)
+ * backoff(h)   = log10(alpha) для каждой N-граммы, у которой есть продолжения.
+ *
+ * Stupid Backoff не нормирует вероятности, поэтому экспортированная модель
+ * не является строго вероятностной — суммы по словарю могут превышать 1.
+ * Для сравнения с другими тулкитами это не мешает: ранжирование сохраняется.
+ */
+export const writeArpa = (store: INGramStore, tokenizer: ITokenizer, order: number, alpha: number): string => {
+    const byOrder: TokenID[][][] = Array.from({length: order}, () => []);
+    for (const [ngram] of store.entries()) {
+        if (ngram.length >= 1 && ngram.length <= order) {
+            byOrder[ngram.length - 1].push(ngram);
+        }
+    }
+
+    // <unk> обязан присутствовать в словаре ARPA-модели, даже если не встречался
+    if (store.getCount([tokenizer.UNK_ID]) === 0) {
+        byOrder[0].unshift([tokenizer.UNK_ID]);
+    }
+
+    const total = store.getTotalTokens();
+    const backoff = formatLog(Math.log10(alpha));
+
+    const lines: string[] = ['\\data\\'];
+    byOrder.forEach((ngrams, i) => lines.push(`ngram ${i + 1}=${ngrams.length}`));
+
+    byOrder.forEach((ngrams, i) => {
+        lines.push('', `\\${i + 1}-grams:`);
+
+        for (const ngram of ngrams) {
+            const count = store.getCount(ngram);
+            const denominator = ngram.length === 1 ? total : store.getCount(ngram.slice(0, -1));
+            const logProb = count > 0 && denominator > 0 ? Math.log10(count / denominator) : LOG_ZERO;
+
+            const fields = [formatLog(logProb), ngram.map(id => toArpaWord(tokenizer.getWord(id))).join(' ')];
+
+            // Вес отступа пишется только для N-грамм, которые служат контекстом старшего порядка
+            if (ngram.length < order && store.getCandidates(ngram).size > 0) {
+                fields.push(backoff);
+            }
+
+            lines.push(fields.join('\t'));
+        }
+    });
+
+    lines.push('', '\\end\\', '');
+    return lines.join('\n');
+};
+
+const formatLog = (value: number): string => {
+    return Number.isFinite(value) ? value.toFixed(6) : String(LOG_ZERO);
+};
@@ -0,0 +1,90 @@
+// ==========================================
+// IndexedDB Model Cache
+// ==========================================
+
+const DB_NAME = 'autocomplete-models';
+const DB_VERSION = 1;
+const STORE_NAME = 'models';
+
+/**
+ * Кэш обученных моделей в IndexedDB.
+ * Хранит сериализованные модели (ArrayBuffer) по строковому ключу,
+ * чтобы не переобучать модель на каждой загрузке страницы.
+ *
+ * Если IndexedDB недоступен (приватный режим, не-браузерное окружение),
+ * кэш ведет себя как всегда пустой.
+ */
+export class ModelCache {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private readonly dbName: string;
+
+    // Отдельное имя базы позволяет хранить в том же виде другие бинарные данные (ответы API)
+    constructor(dbName: string = DB_NAME) {
+        this.dbName = dbName;
+    }
+
+    public isAvailable(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    public async get(key: string): Promise<ArrayBuffer | undefined> {
+        if (!this.isAvailable()) return undefined;
+
+        const db = await this.open();
+        const request = db.transaction(STORE_NAME, 'readonly')
+            .objectStore(STORE_NAME)
+            .get(key);
+
+        const value = await this.wrap<unknown>(request);
+        return value instanceof ArrayBuffer ? value : undefined;
+    }
+
+    public async set(key: string, data: ArrayBuffer): Promise<void> {
+        if (!this.isAvailable()) return;
+
+        const db = await this.open();
+        const request = db.transaction(STORE_NAME, 'readwrite')
+            .objectStore(STORE_NAME)
+            .put(data, key);
+
+        await this.wrap(request);
+    }
+
+    public async delete(key: string): Promise<void> {
+        if (!this.isAvailable()) return;
+
+        const db = await this.open();
+        const request = db.transaction(STORE_NAME, 'readwrite')
+            .objectStore(STORE_NAME)
+            .delete(key);
+
+        await this.wrap(request);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.dbName, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                        request.result.createObjectStore(STORE_NAME);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Неудачное открытие не должно "залипать": следующий вызов попробует снова
+            this.dbPromise.catch(() => {
+                this.dbPromise = null;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private wrap<T>(request: IDBRequest<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
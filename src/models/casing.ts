@@ -0,0 +1,44 @@
+// ==========================================
+// Truecasing
+// ==========================================
+
+export interface CasingContext {
+    // Слово начинает предложение (контекст кончается на <S> или пуст)
+    sentenceStart: boolean;
+    // Недописанное слово в том виде, как его набрал пользователь ('' если его нет)
+    fragment: string;
+}
+
+const hasUppercase = (text: string): boolean => text !== text.toLocaleLowerCase();
+const hasLowercase = (text: string): boolean => text !== text.toLocaleUpperCase();
+
+/**
+ * Набран ли фрагмент КАПСОМ. Одной заглавной буквы недостаточно: "М" — скорее начало "Москва".
+ */
+export const isAllCaps = (text: string): boolean =>
+    Array.from(text.replace(/[^\p{L}]/gu, '')).length >= 2 && hasUppercase(text) && !hasLowercase(text);
+
+const capitalize = (text: string): string => {
+    const [first = '', ...rest] = Array.from(text);
+    return first.toLocaleUpperCase() + rest.join('');
+};
+
+/**
+ * Восстанавливает регистр подсказки.
+ * surface — самое частое написание слова в корпусе не в начале предложения ("москва" -> "Москва").
+ * - фрагмент набран КАПСОМ — подсказка тоже КАПСОМ;
+ * - в начале предложения или если фрагмент начат с заглавной — первая буква заглавная;
+ * - написание со смешанным регистром ("iPhone") не трогается.
+ */
+export const recase = (surface: string, {sentenceStart, fragment}: CasingContext): string => {
+    if (isAllCaps(fragment)) {
+        return surface.toLocaleUpperCase();
+    }
+
+    const fragmentCapitalized = fragment !== '' && hasUppercase(Array.from(fragment)[0]);
+    if ((sentenceStart || fragmentCapitalized) && !hasUppercase(surface)) {
+        return capitalize(surface);
+    }
+
+    return surface;
+};
@@ -0,0 +1,94 @@
+/**
+ * Конфигурация фабрики моделей.
+ * kind выбирает алгоритм, остальные поля — его параметры.
+ * locale — язык корпуса ('ru' по умолчанию), см. LanguageRegistry.
+ * alpha — коэффициент отступа Stupid Backoff, fragmentOrder — порядок символьной PPM для незнакомых слов.
+ * topic — переранжировать подсказки по теме текста (TopicCompleter).
+ * ensemble — смесь моделей (EnsembleCompleter), weights по умолчанию равные.
+ */
+export type ModelConfig =
+    | {
+        kind: 'stupid-backoff';
+        order?: number;
+        stemming?: boolean;
+        minCount?: number;
+        alpha?: number;
+        fragmentOrder?: number;
+        locale?: string;
+        topic?: boolean;
+    }
+    | { kind: 'ppm'; order?: number; locale?: string }
+    | { kind: 'kneser-ney'; order?: number; locale?: string }
+    | { kind: 'ensemble'; members: ModelConfig[]; weights?: number[] };
+
+export type ModelKind = ModelConfig['kind'];
+
+const MODEL_KINDS: ModelKind[] = ['stupid-backoff', 'ppm', 'kneser-ney', 'ensemble'];
+
+const DEFAULT_ENSEMBLE_MEMBERS: ModelKind[] = ['stupid-backoff', 'ppm'];
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {kind: 'stupid-backoff', order: 3, stemming: true};
+
+/**
+ * Читает конфигурацию из query-строки: ?model=ppm&order=4
+ * (&stemming=0&minCount=2&alpha=0.3&fragmentOrder=5&topic=1 для stupid-backoff)
+ * Смесь: ?model=ensemble&members=stupid-backoff,kneser-ney&weights=0.7,0.3 — параметры order, stemming...
+ * применяются ко всем моделям смеси.
+ * Позволяет переключать алгоритм без изменения кода.
+ * Неизвестные или некорректные значения заменяются значениями по умолчанию.
+ */
+export const modelConfigFromQuery = (search: string): ModelConfig => {
+    const params = new URLSearchParams(search);
+    const kind = params.get('model') as ModelKind | null;
+    const order = Number(params.get('order'));
+    const minCount = Number(params.get('minCount'));
+    const alpha = Number(params.get('alpha'));
+    const fragmentOrder = Number(params.get('fragmentOrder'));
+
+    if (!kind || !MODEL_KINDS.includes(kind)) {
+        return DEFAULT_MODEL_CONFIG;
+    }
+
+    if (kind === 'ensemble') {
+        const kinds = (params.get('members')?.split(',') ?? DEFAULT_ENSEMBLE_MEMBERS)
+            .filter((_): _ is ModelKind => MODEL_KINDS.includes(_ as ModelKind) && _ !== 'ensemble');
+        const weights = params.get('weights')?.split(',').map(Number);
+        const members = (kinds.length ? kinds : DEFAULT_ENSEMBLE_MEMBERS).map(member => {
+            const memberParams = new URLSearchParams(params);
+            memberParams.set('model', member);
+            return modelConfigFromQuery(`?${memberParams}`);
+        });
+
+        return {
+            kind,
+            members,
+            weights: weights?.length === members.length && weights.every(_ => Number.isFinite(_) && _ >= 0) && weights.some(_ => _ > 0) ? weights : undefined,
+        };
+    }
+
+    const validOrder = Number.isInteger(order) && order > 0 ? order : undefined;
+    // Только поля своего варианта: конфигурация целиком входит в ключ кэша модели
+    if (kind !== 'stupid-backoff') {
+        return {kind, order: validOrder};
+    }
+
+    return {
+        kind,
+        order: validOrder,
+        stemming: params.get('stemming') !== '0',
+        minCount: Number.isInteger(minCount) && minCount > 1 ? minCount : undefined,
+        alpha: alpha > 0 && alpha < 1 ? alpha : undefined,
+        fragmentOrder: Number.isInteger(fragmentOrder) && fragmentOrder > 0 ? fragmentOrder : undefined,
+        topic: params.get('topic') === '1',
+    };
+};
+
+/**
+ * Та же конфигурация для корпуса на другом языке (у смеси — для всех ее моделей).
+ */
+export const withLocale = (config: ModelConfig, locale: string): ModelConfig => {
+    if (config.kind === 'ensemble') {
+        return {...config, members: config.members.map(member => withLocale(member, locale))};
+    }
+    return {...config, locale};
+};
@@ -0,0 +1,224 @@
+// ==========================================
+// In-document Cache Model
+// ==========================================
+
+import type {IAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+import {interpolateSuggestions} from "../interpolation.ts";
+import {recase} from "../casing.ts";
+import {TokenizerPipeline} from "../tokenizer/index.ts";
+
+// При перестроении после правки текста читается только его конец: старые слова все равно вытеснены
+const REBUILD_WINDOW = 20000;
+// Сколько символов перед курсором нужно, чтобы найти предыдущее слово
+const CONTEXT_WINDOW = 100;
+// Курсор в начале текста или нового предложения
+const SENTENCE_START = /(^|[.!?…])\s*$/u;
+
+export interface DocumentCacheOptions {
+    // Вес кэша при интерполяции с базовой моделью (0..1)
+    weight: number;
+    // Сколько последних слов документа помнит кэш
+    maxTokens: number;
+    // Вес биграмм внутри кэша: P = λ * P(w | prev) + (1 - λ) * P(w)
+    bigramWeight: number;
+}
+
+/**
+ * Кэш-модель текущего документа (Kuhn & De Mori, 1990): слова и биграммы, которые пользователь
+ * уже набрал в поле, получают прибавку к score базовой модели.
+ * Текст передается в update на каждый ввод; учитываются только дописанные слова,
+ * а кэш ограничен последними maxTokens словами.
+ */
+export class DocumentCacheCompleter implements IAutoCompleter {
+    private readonly base: IAutoCompleter;
+    private readonly options: DocumentCacheOptions;
+    private readonly pipeline: TokenizerPipeline;
+
+    private unigrams: Map<string, number> = new Map();
+    private bigrams: Map<string, Map<string, number>> = new Map();
+    // Окно последних слов вместе с предыдущим словом — чтобы вычесть их счетчики при вытеснении
+    private window: Array<[string | null, string]> = [];
+    // Написание слова в документе не в начале предложения ("Солнечные часы" -> "солнечные")
+    private surfaces: Map<string, string> = new Map();
+
+    // Уже учтенный текст и состояние на его конце
+    private processed = '';
+    private previous: string | null = null;
+    private sentenceStart = true;
+
+    constructor(base: IAutoCompleter, options: Partial<DocumentCacheOptions> = {}) {
+        this.base = base;
+        this.options = {
+            weight: 0.2,
+            maxTokens: 1000,
+            bigramWeight: 0.6,
+            ...options,
+        };
+        // Знаки препинания нужны только чтобы не связывать биграммой слова по разные стороны запятой
+        this.pipeline = new TokenizerPipeline({lowercase: true, tokenClasses: [], keepPunctuation: true, sentenceMarkers: false});
+    }
+
+    public train(input: TrainingInput): void {
+        this.base.train(input);
+    }
+
+    /**
+     * Текущее содержимое поля. Дописанный в конце текст учитывается инкрементально,
+     * правка в середине перестраивает кэш, пустое поле его очищает.
+     */
+    public update(text: string): void {
+        const {head} = splitTrailingFragment(text);
+
+        if (!head.startsWith(this.processed)) {
+            this.reset();
+            this.add(head.slice(-REBUILD_WINDOW));
+        } else {
+            this.add(head.slice(this.processed.length));
+        }
+        this.processed = head;
+    }
+
+    public reset(): void {
+        this.unigrams = new Map();
+        this.bigrams = new Map();
+        this.window = [];
+        this.surfaces = new Map();
+        this.processed = '';
+        this.previous = null;
+        this.sentenceStart = true;
+    }
+
+    public predict(context: string, topK: number = 5): Suggestion[] {
+        const suggestions = this.base.predict(context, topK);
+        if (this.window.length === 0) return suggestions;
+
+        const {head, fragment} = splitTrailingFragment(context);
+        const previous = this.getPreviousWord(head);
+        const prefix = this.pipeline.normalize(fragment);
+
+        // Кандидаты кэша: слова документа с набранным началом или продолжения предыдущего слова
+        // и самые частые слова документа; подсказки базовой модели тоже получают прибавку
+        const candidates = new Set<string>();
+        if (fragment) {
+            for (const word of this.unigrams.keys()) {
+                if (word !== prefix && word.startsWith(prefix)) candidates.add(word);
+            }
+        } else {
+            if (previous !== null) this.bigrams.get(previous)?.forEach((_, word) => candidates.add(word));
+            this.topUnigrams(topK).forEach(word => candidates.add(word));
+        }
+        suggestions.forEach(_ => candidates.add(this.pipeline.normalize(_.word)));
+
+        const sentenceStart = SENTENCE_START.test(head);
+        const cached: Suggestion[] = [];
+        for (const word of candidates) {
+            const score = this.getScore(previous, word);
+            if (score === 0) continue;
+            cached.push({word: recase(this.surfaces.get(word) ?? word, {sentenceStart, fragment}), score});
+        }
+
+        return interpolateSuggestions([
+            {suggestions, weight: 1 - this.options.weight},
+            {suggestions: cached, weight: this.options.weight},
+        ], topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        const base = this.base.scoreWord(context, word);
+        if (this.window.length === 0) return base;
+
+        const cache = this.getScore(this.getPreviousWord(context), this.pipeline.normalize(word));
+        return (1 - this.options.weight) * base + this.options.weight * cache;
+    }
+
+    public* getVocabulary(): Iterable<string> {
+        const seen = new Set<string>();
+        for (const word of this.base.getVocabulary()) {
+            seen.add(word);
+            yield word;
+        }
+        for (const word of this.unigrams.keys()) {
+            if (!seen.has(word)) yield word;
+        }
+    }
+
+    private add(text: string): void {
+        for (const token of this.pipeline.tokenize(text, false)) {
+            if (token.kind === 'terminator') {
+                this.previous = null;
+                this.sentenceStart = true;
+                continue;
+            }
+            if (token.kind !== 'word' && token.kind !== 'abbreviation') {
+                this.previous = null;
+                continue;
+            }
+
+            if (!this.sentenceStart) this.surfaces.set(token.text, token.raw);
+            this.push(this.previous, token.text);
+            this.previous = token.text;
+            this.sentenceStart = false;
+        }
+    }
+
+    private push(previous: string | null, word: string): void {
+        this.unigrams.set(word, (this.unigrams.get(word) ?? 0) + 1);
+        if (previous !== null) {
+            const continuations = this.bigrams.get(previous) ?? new Map<string, number>();
+            continuations.set(word, (continuations.get(word) ?? 0) + 1);
+            this.bigrams.set(previous, continuations);
+        }
+
+        this.window.push([previous, word]);
+        if (this.window.length > this.options.maxTokens) {
+            this.evict(...this.window.shift()!);
+        }
+    }
+
+    private evict(previous: string | null, word: string): void {
+        const count = (this.unigrams.get(word) ?? 0) - 1;
+        if (count > 0) {
+            this.unigrams.set(word, count);
+        } else {
+            this.unigrams.delete(word);
+            this.surfaces.delete(word);
+        }
+
+        if (previous === null) return;
+        const continuations = this.bigrams.get(previous);
+        const bigramCount = (continuations?.get(word) ?? 0) - 1;
+        if (bigramCount > 0) {
+            continuations!.set(word, bigramCount);
+        } else {
+            continuations?.delete(word);
+            if (continuations?.size === 0) this.bigrams.delete(previous);
+        }
+    }
+
+    private getScore(previous: string | null, word: string): number {
+        const unigram = (this.unigrams.get(word) ?? 0) / this.window.length;
+        if (previous === null) return unigram;
+
+        const continuations = this.bigrams.get(previous);
+        if (!continuations) return unigram;
+
+        const total = [...continuations.values()].reduce((a, b) => a + b, 0);
+        const bigram = (continuations.get(word) ?? 0) / total;
+        return this.options.bigramWeight * bigram + (1 - this.options.bigramWeight) * unigram;
+    }
+
+    private topUnigrams(count: number): string[] {
+        return [...this.unigrams]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, count)
+            .map(([word]) => word);
+    }
+
+    // Последнее слово перед курсором, если между ним и курсором нет знаков препинания
+    private getPreviousWord(head: string): string | null {
+        const tokens = this.pipeline.tokenize(head.slice(-CONTEXT_WINDOW), false);
+        const last = tokens[tokens.length - 1];
+        return last && (last.kind === 'word' || last.kind === 'abbreviation') ? last.text : null;
+    }
+}
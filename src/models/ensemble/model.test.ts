@@ -0,0 +1,76 @@
+import {describe, expect, it} from 'vitest';
+import type {IAutoCompleter, Suggestion} from "../interface.ts";
+import {getStupidBackoffModel} from "../stupid-backoff/index.ts";
+import {getPPMModel} from "../PPM/adapter.ts";
+import {EnsembleCompleter} from "./model.ts";
+
+// Модель с заданными подсказками и оценками слов (по нормализованному слову)
+const fixed = (suggestions: Suggestion[], scores: Record<string, number>): IAutoCompleter => ({
+    train: () => {},
+    predict: () => suggestions,
+    scoreWord: (_context, word) => scores[word.toLowerCase()] ?? 0,
+    getVocabulary: () => Object.keys(scores),
+});
+
+describe('EnsembleCompleter', () => {
+    it('сливает написания одного слова и сохраняет заглавные буквы', () => {
+        const ensemble = new EnsembleCompleter([
+            fixed([{word: 'москве', score: 0.5}], {'москве': 0.5}),
+            fixed([{word: 'Москве', score: 0.3}], {'москве': 0.3}),
+        ]);
+
+        const suggestions = ensemble.predict('Я живу в ');
+        expect(suggestions).toEqual([{word: 'Москве', score: 0.4}]);
+    });
+
+    it('оценивает кандидата всеми моделями, а не только предложившими его', () => {
+        const ensemble = new EnsembleCompleter([
+            fixed([{word: 'привет', score: 0.6}], {'привет': 0.6, 'революция': 0.3}),
+            fixed([{word: 'революция', score: 0.9}], {'привет': 0.01, 'революция': 0.9}),
+        ]);
+
+        const [first, second] = ensemble.predict('Великая ');
+        expect(first.word).toBe('революция');
+        expect(first.score).toBeCloseTo(0.6);
+        expect(second.word).toBe('привет');
+        expect(second.score).toBeCloseTo(0.305);
+    });
+
+    it('оценивает дополнения фрагмента по контексту без фрагмента', () => {
+        const contexts: string[] = [];
+        const ensemble = new EnsembleCompleter([{
+            ...fixed([{word: 'революция', score: 0.2}], {}),
+            scoreWord: (context: string) => {
+                contexts.push(context);
+                return 0.2;
+            },
+        }]);
+
+        ensemble.predict('Великая рево');
+        expect(contexts).toEqual(['Великая ']);
+    });
+
+    it('сохраняет score исправлений и знаков препинания из подсказок', () => {
+        const ensemble = new EnsembleCompleter([
+            fixed([{word: 'Москве', score: 0.1, replace: true}, {word: ',', score: 0.2, attach: true}],
+                {'москве': 0.9, ',': 0.9}),
+        ]);
+
+        expect(ensemble.predict('Я живу в Мсокве')).toEqual([
+            {word: ',', score: 0.2, attach: true},
+            {word: 'Москве', score: 0.1, replace: true},
+        ]);
+    });
+
+    it('дописывает фрагмент, а не предлагает частое следующее слово', () => {
+        const corpus = 'Привет, мир. Великая революция началась. Привет, друг. Привет всем. Я живу в Москве.';
+        const stupidBackoff = getStupidBackoffModel(3);
+        const ppm = getPPMModel(3);
+        stupidBackoff.train(corpus);
+        ppm.train(corpus);
+
+        const ensemble = new EnsembleCompleter([stupidBackoff, ppm]);
+        expect(ensemble.predict('Великая рево')[0].word).toBe('революция');
+        expect(ensemble.predict('Я живу в ')[0].word).toBe('Москве');
+    });
+});
@@ -0,0 +1,200 @@
+// ==========================================
+// Model Ensemble with Learned Weights
+// ==========================================
+
+import type {IAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import {TokenizerPipeline} from "../tokenizer/index.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+
+// Контекст позиции отложенного текста: модели смотрят максимум на несколько слов назад
+const CONTEXT_CHARS = 200;
+
+export interface WeightEstimationOptions {
+    // Максимум итераций EM
+    iterations: number;
+    // Остановка, когда веса меняются меньше чем на tolerance
+    tolerance: number;
+    // Сколько слов отложенного текста использовать (каждое — scoreWord у всех моделей)
+    maxPositions: number;
+}
+
+export interface WeightEstimation {
+    weights: number[];
+    iterations: number;
+    // Средний логарифм score смеси на отложенном тексте (больше — лучше)
+    logLikelihood: number;
+    // Позиции, где хотя бы одна модель дала ненулевой score
+    positions: number;
+}
+
+/**
+ * Линейная смесь моделей: score(w | h) = Σ weight_m * score_m(w | h).
+ * Кандидаты — объединение подсказок всех моделей, каждый оценивается всеми моделями (scoreWord).
+ * Веса можно оценить EM-алгоритмом на отложенном тексте (estimateWeights).
+ */
+export class EnsembleCompleter implements IAutoCompleter {
+    private readonly models: IAutoCompleter[];
+    private weights: number[];
+    private readonly pipeline: TokenizerPipeline;
+
+    constructor(models: IAutoCompleter[], weights?: number[]) {
+        if (models.length === 0) {
+            throw new Error('EnsembleCompleter needs at least one model');
+        }
+        if (weights && weights.length !== models.length) {
+            throw new Error(`Expected ${models.length} weights, got ${weights.length}`);
+        }
+
+        this.models = models;
+        this.weights = weights ? normalize(weights) : models.map(() => 1 / models.length);
+        this.pipeline = new TokenizerPipeline({tokenClasses: [], keepPunctuation: false, sentenceMarkers: false});
+    }
+
+    public getWeights(): number[] {
+        return [...this.weights];
+    }
+
+    public setWeights(weights: number[]): void {
+        if (weights.length !== this.models.length) {
+            throw new Error(`Expected ${this.models.length} weights, got ${weights.length}`);
+        }
+        this.weights = normalize(weights);
+    }
+
+    public train(input: TrainingInput): void {
+        this.models.forEach(model => model.train(input));
+    }
+
+    /**
+     * Подсказки разных моделей сливаются по нормализованному слову ("Москве" и "москве" — одно),
+     * из написаний берется то, где модель восстановила заглавные буквы.
+     * Обычное слово оценивается scoreWord каждой модели, в том числе той, что его не предложила:
+     * иначе слово вне чужого top-K получало бы там ноль. Знаки препинания, исправления (replace)
+     * и слова, которых не знает ни одна модель (значения классов, посимвольные дописывания),
+     * получают взвешенную сумму score из подсказок.
+     */
+    public predict(context: string, topK: number = 5): Suggestion[] {
+        // Недописанное слово — не контекст: дополнения оцениваются после завершенной части
+        const {head, fragment} = splitTrailingFragment(context);
+        const scoringContext = fragment ? head : context;
+
+        const candidates = new Map<string, Suggestion>();
+        this.models.forEach((model, i) => {
+            if (this.weights[i] === 0) return;
+
+            for (const suggestion of model.predict(context, topK)) {
+                const key = normalizeWord(suggestion.word);
+                const score = this.weights[i] * suggestion.score;
+                const existing = candidates.get(key);
+                if (!existing) {
+                    candidates.set(key, {...suggestion, score});
+                    continue;
+                }
+
+                existing.score += score;
+                if (!hasUppercase(existing.word) && hasUppercase(suggestion.word)) {
+                    existing.word = suggestion.word;
+                }
+            }
+        });
+
+        const results: Suggestion[] = [];
+        for (const suggestion of candidates.values()) {
+            if (suggestion.attach || suggestion.replace) {
+                results.push(suggestion);
+                continue;
+            }
+
+            const score = this.scoreWord(scoringContext, suggestion.word);
+            results.push(score > 0 ? {...suggestion, score} : suggestion);
+        }
+
+        return results
+            .filter(_ => _.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        return this.models.reduce((sum, model, i) => sum + this.weights[i] * model.scoreWord(context, word), 0);
+    }
+
+    public* getVocabulary(): Iterable<string> {
+        const seen = new Set<string>();
+        for (const model of this.models) {
+            for (const word of model.getVocabulary()) {
+                if (seen.has(word)) continue;
+                seen.add(word);
+                yield word;
+            }
+        }
+    }
+
+    /**
+     * Оценивает веса EM-алгоритмом по отложенному тексту (Jelinek & Mercer, 1980) и применяет их.
+     * E-шаг: доля модели m в каждом слове r_m = w_m * s_m / Σ w_k * s_k.
+     * M-шаг: w_m = среднее r_m по всем словам.
+     * Score моделей считаются вероятностями; для Stupid Backoff это приближение.
+     */
+    public estimateWeights(heldOut: string, options: Partial<WeightEstimationOptions> = {}): WeightEstimation {
+        const {iterations, tolerance, maxPositions} = {iterations: 50, tolerance: 1e-4, maxPositions: 2000, ...options};
+
+        // Score всех моделей не зависят от весов — считаем их один раз
+        const scores: number[][] = [];
+        for (const token of this.pipeline.tokenize(heldOut, false)) {
+            if (scores.length >= maxPositions) break;
+            if (token.kind !== 'word') continue;
+
+            const context = heldOut.slice(Math.max(0, token.start - CONTEXT_CHARS), token.start);
+            const position = this.models.map(model => model.scoreWord(context, token.raw));
+            // Слово, неизвестное всем моделям, ничего не говорит о весах
+            if (position.some(score => score > 0)) scores.push(position);
+        }
+
+        if (scores.length === 0) {
+            return {weights: this.getWeights(), iterations: 0, logLikelihood: -Infinity, positions: 0};
+        }
+
+        let weights = this.getWeights();
+        let iteration = 0;
+        while (iteration < iterations) {
+            iteration++;
+            const responsibilities = weights.map(() => 0);
+            for (const position of scores) {
+                const mixture = position.reduce((sum, score, m) => sum + weights[m] * score, 0);
+                if (mixture === 0) continue;
+                position.forEach((score, m) => responsibilities[m] += weights[m] * score / mixture);
+            }
+
+            const next = normalize(responsibilities);
+            const change = Math.max(...next.map((weight, m) => Math.abs(weight - weights[m])));
+            weights = next;
+            if (change < tolerance) break;
+        }
+
+        this.weights = weights;
+        const logLikelihood = scores.reduce(
+            (sum, position) => sum + Math.log(position.reduce((mixture, score, m) => mixture + weights[m] * score, 0)),
+            0
+        ) / scores.length;
+
+        return {weights: this.getWeights(), iterations: iteration, logLikelihood, positions: scores.length};
+    }
+}
+
+// Модели хранят слова в нижнем регистре и с "е" вместо "ё"
+const normalizeWord = (word: string): string => word.toLocaleLowerCase().replace(/ё/g, 'е');
+
+const hasUppercase = (word: string): boolean => word !== word.toLocaleLowerCase();
+
+const normalize = (weights: number[]): number[] => {
+    if (weights.some(weight => !Number.isFinite(weight) || weight < 0)) {
+        throw new Error(`Invalid ensemble weights: ${weights.join(', ')}`);
+    }
+
+    const total = weights.reduce((a, b) => a + b, 0);
+    if (total === 0) {
+        throw new Error('Ensemble weights sum to zero');
+    }
+    return weights.map(weight => weight / total);
+};
@@ -0,0 +1,25 @@
+// Недописанное слово в конце строки: буквы/цифры, возможно с дефисом внутри ("кое-ч")
+const TRAILING_FRAGMENT = /[\p{L}\p{N}][\p{L}\p{N}-]*$/u;
+
+export interface SplitText {
+    // Завершенная часть текста (контекст)
+    head: string;
+    // Слово, которое пользователь еще набирает ('' если текст кончается пробелом или знаком)
+    fragment: string;
+}
+
+/**
+ * Отделяет недописанное слово от завершенной части текста.
+ * "Великая рево" -> { head: "Великая ", fragment: "рево" }
+ */
+export const splitTrailingFragment = (text: string): SplitText => {
+    const match = text.match(TRAILING_FRAGMENT);
+    if (!match) {
+        return {head: text, fragment: ''};
+    }
+
+    return {
+        head: text.slice(0, text.length - match[0].length),
+        fragment: match[0],
+    };
+};
@@ -1,6 +1,114 @@
 import {getStupidBackoffModel} from "./stupid-backoff";
-import type {IAutoCompleter} from "./interface.ts";
+import {getPPMModel} from "./PPM/adapter.ts";
+import {getKneserNeyModel} from "./kneser-ney";
+import type {IAutoCompleter, IPersistentAutoCompleter, TrainingInput} from "./interface.ts";
+import type {ModelConfig} from "./config.ts";
+import {ModelCache} from "./cache";
+import {TopicCompleter, TriggerIndex} from "./topic";
+import {RussianStemmer} from "./morphology/russian-stemmer.ts";
+import {EnsembleCompleter} from "./ensemble";
 
-export const modelAbstractFactory = (): IAutoCompleter => {
-    return getStupidBackoffModel()
-}
\ No newline at end of file
+type StupidBackoffConfig = Extract<ModelConfig, {kind: 'stupid-backoff'}>
+
+// Модели, поддерживающие сериализацию (кэшируются в IndexedDB)
+type PersistentModelConfig = StupidBackoffConfig
+
+/**
+ * Источник обучающих данных.
+ * key однозначно описывает корпус (включая веса документов) и используется как часть ключа кэша.
+ */
+export interface CorpusLoader {
+    key: string;
+    load(): Promise<TrainingInput>;
+}
+
+/**
+ * Новая необученная модель по конфигурации (без кэша — для оценки и подбора параметров).
+ */
+export const createModel = (config: ModelConfig): IAutoCompleter => {
+    switch (config.kind) {
+        case 'stupid-backoff':
+            return createPersistentModel(config)
+        case 'ppm':
+            return getPPMModel(config.order, config.locale)
+        case 'kneser-ney':
+            return getKneserNeyModel(config.order, config.locale)
+        case 'ensemble':
+            return new EnsembleCompleter(config.members.map(createModel), config.weights)
+    }
+}
+
+const createPersistentModel = (config: PersistentModelConfig): IPersistentAutoCompleter => {
+    return withTopic(config, getStupidBackoffModel(config.order, {
+        stemming: config.stemming,
+        minCount: config.minCount,
+        alpha: config.alpha,
+        fragmentOrder: config.fragmentOrder,
+        locale: config.locale,
+    }))
+}
+
+// Индекс триггеров объединяет словоформы тем же стеммером, что и модель
+const withTopic = (config: StupidBackoffConfig, model: IPersistentAutoCompleter): IPersistentAutoCompleter => {
+    if (!config.topic) return model
+
+    const stemming = config.stemming && (config.locale ?? 'ru') === 'ru'
+    return new TopicCompleter(model, new TriggerIndex({stemmer: stemming ? new RussianStemmer() : null}))
+}
+
+const isPersistent = (config: ModelConfig): config is PersistentModelConfig => {
+    return config.kind === 'stupid-backoff'
+}
+
+/**
+ * Создает модель по конфигурации.
+ * Модели, поддерживающие сериализацию, сначала ищутся в кэше IndexedDB,
+ * и только если там ничего нет — загружается корпус, модель обучается и сохраняется.
+ */
+export const modelAbstractFactory = async (config: ModelConfig, corpus: CorpusLoader): Promise<IAutoCompleter> => {
+    // Смесь собирается из моделей, каждая из которых кэшируется отдельно.
+    // По очереди: параллельно каждая модель загружала бы корпус сама
+    if (config.kind === 'ensemble') {
+        const members: IAutoCompleter[] = []
+        for (const member of config.members) {
+            members.push(await modelAbstractFactory(member, corpus))
+        }
+        return new EnsembleCompleter(members, config.weights)
+    }
+
+    if (!isPersistent(config)) {
+        const model = createModel(config)
+        model.train(await corpus.load())
+        return model
+    }
+
+    const model = createPersistentModel(config)
+
+    const cache = new ModelCache()
+    const cacheKey = `${JSON.stringify(config)}:${corpus.key}`
+
+    const cached = await cache.get(cacheKey).catch((e) => {
+        console.warn('Model cache is unavailable', e)
+        return undefined
+    })
+
+    if (cached) {
+        try {
+            model.load(cached)
+            return model
+        } catch (e) {
+            // Битый или устаревший формат — переобучаем и перезаписываем
+            console.warn('Cached model is corrupted, retraining', e)
+        }
+    }
+
+    // Неудачная загрузка могла частично изменить модель, поэтому обучаем новую
+    const trained = cached ? createPersistentModel(config) : model
+    trained.train(await corpus.load())
+
+    await cache.set(cacheKey, trained.save()).catch((e) => {
+        console.warn('Failed to cache trained model', e)
+    })
+
+    return trained
+}
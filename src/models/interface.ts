@@ -1,9 +1,57 @@
+import type {ISerializable} from "./serialization/binary.ts";
+
+/**
+ * Документ обучающего корпуса.
+ * source — метка источника ("wikipedia", "user-notes"), weight — множитель его счетчиков (по умолчанию 1):
+ * небольшой корпус предметной области с большим весом перевешивает общий текст.
+ * language — язык документа ('ru', 'en'); если не указан, LanguageRegistry определит его сам.
+ */
+export interface TrainingDocument {
+    text: string;
+    source?: string;
+    weight?: number;
+    language?: string;
+}
+
+/**
+ * Строка — один документ с весом 1.
+ */
+export type TrainingInput = string | TrainingDocument[];
+
 export interface IAutoCompleter {
-    train(text: string): void;
+    // Каждый документ получает собственные границы <S> ... </S>: N-граммы не переходят между документами
+    train(input: TrainingInput): void;
     predict(context: string, topK?: number): Suggestion[];
+    // Score слова `word` как продолжения текста `context` (в той же шкале, что Suggestion.score)
+    scoreWord(context: string, word: string): number;
+    // Все слова, которые модель может предложить
+    getVocabulary(): Iterable<string>;
+}
+
+/**
+ * Модель, которую можно сохранить после обучения и восстановить без повторного обучения.
+ */
+export interface IPersistentAutoCompleter extends IAutoCompleter {
+    save(): ArrayBuffer;
+    load(buffer: ArrayBuffer): void;
+}
+
+/**
+ * Дописывание недописанного слова на уровне символов.
+ * Используется как запасной вариант, когда словарь модели не знает такого префикса.
+ */
+export interface IFragmentCompleter extends ISerializable {
+    train(input: TrainingInput): void;
+    complete(fragment: string, context: string, topK?: number): Suggestion[];
 }
 
 export interface Suggestion {
     word: string;
     score: number;
+    // Слово заменяет недописанный фрагмент целиком (исправление), а не продолжает его
+    replace?: boolean;
+    // Заменяемый конец текста, если он шире недописанного слова (";bpym" при наборе не в той раскладке)
+    replaces?: string;
+    // Знак препинания: пишется вплотную к предыдущему слову, без пробела
+    attach?: boolean;
 }
\ No newline at end of file
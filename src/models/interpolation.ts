@@ -0,0 +1,36 @@
+import type {Suggestion} from "./interface.ts";
+
+/**
+ * Подсказки одной модели и ее вес в смеси.
+ */
+export interface WeightedSuggestions {
+    suggestions: Suggestion[];
+    weight: number;
+}
+
+/**
+ * Линейная интерполяция списков подсказок: score слова — сумма score * weight по всем спискам,
+ * где оно встретилось (в остальных его score считается нулевым).
+ * Остальные поля подсказки берутся из первого списка, в котором было слово.
+ * Score имеют смысл складывать, только если модели выдают их в одной шкале.
+ */
+export const interpolateSuggestions = (lists: WeightedSuggestions[], topK: number): Suggestion[] => {
+    const merged = new Map<string, Suggestion>();
+
+    for (const {suggestions, weight} of lists) {
+        for (const suggestion of suggestions) {
+            const score = suggestion.score * weight;
+            const existing = merged.get(suggestion.word);
+            if (existing) {
+                existing.score += score;
+            } else {
+                merged.set(suggestion.word, {...suggestion, score});
+            }
+        }
+    }
+
+    return [...merged.values()]
+        .filter(_ => _.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+};
@@ -0,0 +1,7 @@
+import {KneserNeyModel} from "./model.ts";
+import {KNGramStore} from "./store.ts";
+import {AdvancedTokenizer} from "../stupid-backoff/tokenizer.ts";
+
+export const getKneserNeyModel = (order: number = 3, locale: string = 'ru') => {
+    return new KneserNeyModel(order, new AdvancedTokenizer({locale}), new KNGramStore());
+};
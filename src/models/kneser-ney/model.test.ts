@@ -0,0 +1,23 @@
+import {describe, expect, it} from 'vitest';
+import {getKneserNeyModel} from "./index.ts";
+
+const CORPUS = 'Великая революция началась в 1917 году. Революционный год. Великая река течет. В Москве революция.';
+
+describe('KneserNeyModel', () => {
+    const model = getKneserNeyModel(3);
+    model.train(CORPUS);
+
+    it('дописывает недописанное слово с учетом контекста', () => {
+        const words = model.predict('Великая рево').map(_ => _.word);
+        expect(words[0]).toBe('революция');
+        expect(words.every(word => word.startsWith('революц'))).toBe(true);
+    });
+
+    it('сохраняет заглавную букву фрагмента', () => {
+        expect(model.predict('Рев').map(_ => _.word)).toEqual(expect.arrayContaining(['Революция', 'Революционный']));
+    });
+
+    it('после пробела предсказывает следующее слово', () => {
+        expect(model.predict('Великая ').map(_ => _.word).sort()).toEqual(['революция', 'река']);
+    });
+});
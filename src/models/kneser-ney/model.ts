@@ -0,0 +1,280 @@
+// ==========================================
+// Interpolated Modified Kneser-Ney
+// ==========================================
+
+import type {IAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import type {ITokenizer, TokenID} from "../stupid-backoff/tokenizer.ts";
+import type {NGramKey} from "../stupid-backoff/store.ts";
+import type {IKNGramStore} from "./store.ts";
+import {recase} from "../casing.ts";
+import {toTrainingDocuments} from "../training.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+import {expandClassSuggestion, isClassToken, TOKEN_CLASSES} from "../tokenizer/index.ts";
+
+// Дисконты на случай, если статистики count-of-counts недостаточно для оценки
+const FALLBACK_DISCOUNTS: [number, number, number] = [0.5, 1.0, 1.5];
+
+/**
+ * Статистика контекста h на одном порядке:
+ * total — сумма счетчиков c(h•), n1/n2/n3 — число продолжений со счетчиком 1, 2 и 3+.
+ */
+interface ContextStats {
+    total: number;
+    n1: number;
+    n2: number;
+    n3: number;
+}
+
+/**
+ * MODIFIED KNESER-NEY (Chen & Goodman, 1998)
+ * -------------------------------------------
+ * Интерполированная версия с тремя дисконтами D1, D2, D3+ на каждый порядок.
+ *
+ * P(w|h) = max(c(h+w) - D(c), 0) / Σc(h•) + γ(h) * P(w|h')
+ * γ(h)   = (D1 * N1(h•) + D2 * N2(h•) + D3+ * N3+(h•)) / Σc(h•)
+ *
+ * На старшем порядке c — обычные счетчики, на младших — continuation counts N1+(•h+w).
+ * Нижний уровень интерполируется с равномерным распределением 1/|V|,
+ * поэтому сумма вероятностей по словарю равна 1 и score можно сравнивать между моделями.
+ */
+export class KneserNeyModel implements IAutoCompleter {
+    private tokenizer: ITokenizer;
+    private store: IKNGramStore;
+    private n: number;
+
+    // Дисконты [D1, D2, D3+] для каждого порядка (индекс = порядок - 1)
+    private discounts: Array<[number, number, number]> = [];
+    // Статистика контекстов для каждого порядка (индекс = порядок - 1)
+    private contextStats: Array<Map<NGramKey, ContextStats>> = [];
+
+    constructor(order: number, tokenizer: ITokenizer, store: IKNGramStore) {
+        this.tokenizer = tokenizer;
+        this.store = store;
+        this.n = order;
+    }
+
+    /**
+     * Счетчики документа умножаются на его вес. Дробные счетчики попадают
+     * в "бакеты" дисконтов по округлению (см. rebuild).
+     */
+    public train(input: TrainingInput): void {
+        const documents = toTrainingDocuments(input);
+        const streams = this.tokenizer.tokenizeAll(documents.map(_ => _.text));
+
+        documents.forEach(({weight}, index) => {
+            const tokens = streams[index];
+            for (let i = 0; i < tokens.length; i++) {
+                for (let k = 1; k <= this.n; k++) {
+                    if (i - k + 1 < 0) continue;
+                    this.store.increment(tokens.slice(i - k + 1, i + 1), weight);
+                }
+            }
+        });
+
+        // Дисконты и статистики контекстов зависят от всего корпуса, пересчитываем целиком
+        this.rebuild();
+    }
+
+    /**
+     * Если последнее слово не дописано ("Великая рево"), дополняет его:
+     * кандидаты — слова словаря с таким началом, предыдущие слова — контекст.
+     * Иначе предсказывает следующее слово.
+     */
+    public predict(inputText: string, topK: number = 5): Suggestion[] {
+        const {head, fragment} = splitTrailingFragment(inputText);
+        const context = this.getContext(head);
+        const candidates = fragment ? this.getFragmentCandidates(fragment) : this.getNextWordCandidates(context);
+
+        const last = context[context.length - 1];
+        const sentenceStart = last === undefined || last === this.tokenizer.BOS_ID;
+        // Знак препинания не может начинать предложение или идти сразу за другим знаком
+        const punctuationAllowed = !fragment && !sentenceStart && !this.tokenizer.isPunctuation(last);
+
+        const results: Suggestion[] = [];
+        for (const candidateId of candidates) {
+            if (
+                candidateId === this.tokenizer.BOS_ID ||
+                candidateId === this.tokenizer.EOS_ID ||
+                candidateId === this.tokenizer.UNK_ID
+            ) continue;
+
+            const attach = this.tokenizer.isPunctuation(candidateId);
+            if (attach && !punctuationAllowed) continue;
+
+            const word = this.tokenizer.getWord(candidateId);
+            const score = this.getProbability(candidateId, context);
+
+            // Предсказан класс ("<YEAR>") — подставляем конкретные значения
+            if (isClassToken(word)) {
+                results.push(...expandClassSuggestion({word, score}, inputText, fragment));
+                continue;
+            }
+
+            results.push({
+                word: recase(this.tokenizer.getSurfaceForm(candidateId), {sentenceStart, fragment}),
+                score,
+                ...(attach ? {attach} : {}),
+            });
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        const ids = this.getContext(context);
+        return this.getProbability(this.tokenizer.getId(this.tokenizer.normalize(word)), ids);
+    }
+
+    public getVocabulary(): Iterable<string> {
+        return this.tokenizer.getWords();
+    }
+
+    /**
+     * Кандидаты на следующее слово — все слова, встречавшиеся после любого суффикса контекста.
+     */
+    private getNextWordCandidates(context: TokenID[]): Set<TokenID> {
+        const candidates = new Set<TokenID>();
+        for (let i = 0; i <= context.length; i++) {
+            this.store.getCandidates(context.slice(i)).forEach(id => candidates.add(id));
+        }
+        // Для пустого контекста contextMap не ведется: берем самые частые униграммы
+        if (candidates.size === 0) {
+            for (const [ngram] of this.store.entries()) {
+                if (ngram.length === 1) candidates.add(ngram[0]);
+            }
+        }
+        return candidates;
+    }
+
+    /**
+     * Кандидаты на дополнение фрагмента — слова с таким началом (кроме самого фрагмента)
+     * и классы, значения которых могут с него начинаться ("19" -> "1917").
+     */
+    private getFragmentCandidates(fragment: string): Set<TokenID> {
+        const prefix = this.tokenizer.normalize(fragment);
+        const candidates = new Set(
+            this.tokenizer.getByPrefix(prefix).filter(id => this.tokenizer.getWord(id) !== prefix)
+        );
+        for (const {token} of TOKEN_CLASSES) {
+            const id = this.tokenizer.getId(token);
+            if (id !== this.tokenizer.UNK_ID) candidates.add(id);
+        }
+        return candidates;
+    }
+
+    private getContext(text: string): TokenID[] {
+        const tokens = this.tokenizer.tokenizeContext(text);
+        return tokens.slice(Math.max(0, tokens.length - (this.n - 1)));
+    }
+
+    /**
+     * Рекурсивный расчет интерполированной вероятности P(candidate | context).
+     */
+    private getProbability(candidate: TokenID, context: TokenID[]): number {
+        const order = context.length + 1;
+        const stats = this.contextStats[order - 1]?.get(context.join(','));
+
+        if (order === 1) {
+            const uniform = 1 / Math.max(1, this.tokenizer.getVocabSize());
+            if (!stats || stats.total === 0) return uniform;
+
+            return this.discounted(candidate, context, stats) + this.gamma(order, stats) * uniform;
+        }
+
+        // Контекст не встречался: вся масса уходит на младший порядок
+        if (!stats || stats.total === 0) {
+            return this.getProbability(candidate, context.slice(1));
+        }
+
+        return this.discounted(candidate, context, stats)
+            + this.gamma(order, stats) * this.getProbability(candidate, context.slice(1));
+    }
+
+    private discounted(candidate: TokenID, context: TokenID[], stats: ContextStats): number {
+        const ngram = [...context, candidate];
+        const count = this.countOf(ngram);
+        if (count <= 0) return 0;
+
+        return Math.max(count - this.discountFor(ngram.length, count), 0) / stats.total;
+    }
+
+    private gamma(order: number, stats: ContextStats): number {
+        const [d1, d2, d3] = this.discounts[order - 1] ?? FALLBACK_DISCOUNTS;
+        return (d1 * stats.n1 + d2 * stats.n2 + d3 * stats.n3) / stats.total;
+    }
+
+    private discountFor(order: number, count: number): number {
+        const [d1, d2, d3] = this.discounts[order - 1] ?? FALLBACK_DISCOUNTS;
+        if (count >= 3) return d3;
+        return count >= 2 ? d2 : d1;
+    }
+
+    /**
+     * Счетчик, используемый на данном порядке:
+     * сырой для старшего порядка, continuation count для всех младших.
+     */
+    private countOf(ngram: TokenID[]): number {
+        return ngram.length === this.n
+            ? this.store.getCount(ngram)
+            : this.store.getContinuationCount(ngram);
+    }
+
+    /**
+     * Пересчитывает count-of-counts, дисконты и статистики контекстов по всему хранилищу.
+     */
+    private rebuild(): void {
+        const countOfCounts = Array.from({length: this.n}, () => [0, 0, 0, 0]);
+        this.contextStats = Array.from({length: this.n}, () => new Map<NGramKey, ContextStats>());
+
+        for (const [ngram] of this.store.entries()) {
+            const order = ngram.length;
+            if (order < 1 || order > this.n) continue;
+
+            const count = this.countOf(ngram);
+            if (count <= 0) continue;
+
+            // Дробные счетчики (взвешенные корпуса) округляем до ближайшего "бакета"
+            const bucket = Math.max(1, Math.round(count));
+            if (bucket <= 4) countOfCounts[order - 1][bucket - 1]++;
+
+            const contextKey = ngram.slice(0, -1).join(',');
+            const statsMap = this.contextStats[order - 1];
+            let stats = statsMap.get(contextKey);
+            if (!stats) {
+                stats = {total: 0, n1: 0, n2: 0, n3: 0};
+                statsMap.set(contextKey, stats);
+            }
+
+            stats.total += count;
+            if (bucket === 1) stats.n1++;
+            else if (bucket === 2) stats.n2++;
+            else stats.n3++;
+        }
+
+        this.discounts = countOfCounts.map(counts => this.estimateDiscounts(counts));
+    }
+
+    /**
+     * Оценка дисконтов по Chen & Goodman:
+     * Y = n1 / (n1 + 2*n2), Dk = k - (k+1) * Y * n(k+1) / nk
+     */
+    private estimateDiscounts([n1, n2, n3, n4]: number[]): [number, number, number] {
+        if (n1 === 0 || n2 === 0) return FALLBACK_DISCOUNTS;
+
+        const y = n1 / (n1 + 2 * n2);
+        const estimate = (k: number, nk: number, next: number, fallback: number) => {
+            if (nk === 0) return fallback;
+            const d = k - (k + 1) * y * next / nk;
+            // Дисконт должен оставаться в (0, k], иначе оценка бессмысленна
+            return d > 0 && d <= k ? d : fallback;
+        };
+
+        return [
+            estimate(1, n1, n2, FALLBACK_DISCOUNTS[0]),
+            estimate(2, n2, n3, FALLBACK_DISCOUNTS[1]),
+            estimate(3, n3, n4, FALLBACK_DISCOUNTS[2]),
+        ];
+    }
+}
@@ -0,0 +1,58 @@
+// ==========================================
+// NGram Storage with Continuation Counts
+// ==========================================
+
+import {NGramStore} from "../stupid-backoff/store.ts";
+import type {INGramStore, NGramKey} from "../stupid-backoff/store.ts";
+import type {TokenID} from "../stupid-backoff/tokenizer.ts";
+import type {BinaryReader} from "../serialization/binary.ts";
+
+export interface IKNGramStore extends INGramStore {
+    /**
+     * N1+(• w1..wk): число различных слов, встречавшихся ПЕРЕД данной N-граммой.
+     * Используется Kneser-Ney вместо сырых счетчиков на младших порядках.
+     */
+    getContinuationCount(ngram: TokenID[]): number;
+}
+
+/**
+ * Хранилище счетчиков, дополнительно отслеживающее continuation counts.
+ * Когда N-грамма [a, b, c] встречается впервые, у суффикса [b, c]
+ * появляется новое левое продолжение — увеличиваем его счетчик.
+ */
+export class KNGramStore extends NGramStore implements IKNGramStore {
+    private continuation: Map<NGramKey, number> = new Map();
+
+    public increment(ngram: TokenID[], weight: number = 1): void {
+        const isNewType = this.getCount(ngram) === 0;
+        super.increment(ngram, weight);
+
+        if (isNewType && ngram.length > 1) {
+            this.addContinuation(ngram.slice(1));
+        }
+    }
+
+    public getContinuationCount(ngram: TokenID[]): number {
+        return this.continuation.get(this.toKey(ngram)) || 0;
+    }
+
+    /**
+     * Continuation counts однозначно выводятся из множества N-грамм,
+     * поэтому в бинарный формат не пишутся, а пересчитываются при загрузке.
+     */
+    public deserialize(reader: BinaryReader): void {
+        super.deserialize(reader);
+
+        this.continuation = new Map();
+        for (const [ngram] of this.entries()) {
+            if (ngram.length > 1) {
+                this.addContinuation(ngram.slice(1));
+            }
+        }
+    }
+
+    private addContinuation(suffix: TokenID[]): void {
+        const key = this.toKey(suffix);
+        this.continuation.set(key, (this.continuation.get(key) || 0) + 1);
+    }
+}
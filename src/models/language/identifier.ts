@@ -0,0 +1,97 @@
+// ==========================================
+// Character N-gram Language Identifier
+// ==========================================
+
+// Порядок символьных N-грамм: триграммы хорошо различают языки даже на коротком тексте
+const NGRAM_ORDER = 3;
+// Сглаживание Лапласа для N-грамм, не встречавшихся в профиле языка
+const SMOOTHING = 0.5;
+
+export interface LanguageScore {
+    language: string;
+    probability: number;
+}
+
+interface LanguageProfile {
+    counts: Map<string, number>;
+    total: number;
+}
+
+/**
+ * Определение языка наивным байесовским классификатором по символьным N-граммам (1..3).
+ * Слова обрамляются пробелами, поэтому начала и окончания слов тоже учитываются.
+ * Профили строятся из обучающего текста или словаря модели — отдельные данные не нужны.
+ */
+export class LanguageIdentifier {
+    private profiles: Map<string, LanguageProfile> = new Map();
+    private alphabet: Set<string> = new Set();
+
+    public train(language: string, text: string, weight: number = 1): void {
+        let profile = this.profiles.get(language);
+        if (!profile) {
+            profile = {counts: new Map(), total: 0};
+            this.profiles.set(language, profile);
+        }
+
+        for (const ngram of this.extract(text)) {
+            profile.counts.set(ngram, (profile.counts.get(ngram) ?? 0) + weight);
+            profile.total += weight;
+            this.alphabet.add(ngram);
+        }
+    }
+
+    public getLanguages(): string[] {
+        return [...this.profiles.keys()];
+    }
+
+    // Ни один профиль не обучен: detect вернет равные вероятности для любого текста
+    public isEmpty(): boolean {
+        return this.alphabet.size === 0;
+    }
+
+    /**
+     * Апостериорные вероятности языков для текста, по убыванию.
+     * Для текста без букв (или без обученных профилей) все языки равновероятны.
+     */
+    public detect(text: string): LanguageScore[] {
+        const languages = this.getLanguages();
+        const ngrams = this.extract(text);
+        if (languages.length === 0) return [];
+
+        const vocabularySize = Math.max(1, this.alphabet.size);
+        const logLikelihoods = languages.map(language => {
+            const {counts, total} = this.profiles.get(language)!;
+            const denominator = Math.log(total + SMOOTHING * vocabularySize);
+            return ngrams.reduce(
+                (sum, ngram) => sum + Math.log((counts.get(ngram) ?? 0) + SMOOTHING) - denominator,
+                0
+            );
+        });
+
+        // softmax в лог-пространстве
+        const max = Math.max(...logLikelihoods);
+        const weights = logLikelihoods.map(_ => Math.exp(_ - max));
+        const sum = weights.reduce((a, b) => a + b, 0);
+
+        return languages
+            .map((language, i) => ({language, probability: weights[i] / sum}))
+            .sort((a, b) => b.probability - a.probability);
+    }
+
+    private extract(text: string): string[] {
+        const ngrams: string[] = [];
+        const words = text.normalize('NFC').toLocaleLowerCase().match(/\p{L}+/gu) ?? [];
+
+        for (const word of words) {
+            const chars = Array.from(` ${word} `);
+            for (let n = 1; n <= NGRAM_ORDER; n++) {
+                for (let i = 0; i + n <= chars.length; i++) {
+                    const ngram = chars.slice(i, i + n).join('');
+                    if (ngram !== ' ') ngrams.push(ngram);
+                }
+            }
+        }
+
+        return ngrams;
+    }
+}
@@ -0,0 +1,2 @@
+export * from "./identifier.ts";
+export * from "./registry.ts";
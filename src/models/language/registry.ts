@@ -0,0 +1,206 @@
+// ==========================================
+// Per-language Model Registry
+// ==========================================
+
+import type {IAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import type {WeightedDocument} from "../training.ts";
+import {toTrainingDocuments} from "../training.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+import {interpolateSuggestions} from "../interpolation.ts";
+import {LanguageIdentifier, type LanguageScore} from "./identifier.ts";
+
+export interface LanguageRegistryOptions {
+    // Если язык определен с такой уверенностью — подсказки дает только его модель
+    confidence: number;
+    // Сколько последних слов текущего предложения учитывается при определении языка
+    window: number;
+    // Вес слова убывает с удалением от курсора: последнее слово весит 1, предыдущее decay, ...
+    decay: number;
+    // Языки с меньшей долей в смешанном режиме не опрашиваются
+    minShare: number;
+}
+
+// Граница предложения: язык предыдущего предложения не должен влиять на текущее
+const SENTENCE_END = /[.!?…]+\s+/gu;
+const WORD = /\p{L}+/gu;
+// Недописанное слово из стольких букв уже надежно определяет язык само по себе
+const MIN_FRAGMENT_LETTERS = 2;
+
+/**
+ * Набор моделей автокомплита, по одной на язык.
+ * Язык определяется по набираемому тексту: в одноязычном предложении подсказки дает модель
+ * этого языка, в смешанном ("Я использую React и ...") подсказки моделей объединяются
+ * с весами, равными доле языка в предложении.
+ * Профили языков строятся из словарей моделей, поэтому работают и для моделей из кэша.
+ */
+export class LanguageRegistry implements IAutoCompleter {
+    private models: Map<string, IAutoCompleter> = new Map();
+    // Строится лениво из словарей моделей; сбрасывается при регистрации и обучении
+    private identifier: LanguageIdentifier | null = null;
+    private options: LanguageRegistryOptions;
+
+    constructor(options: Partial<LanguageRegistryOptions> = {}) {
+        this.options = {
+            confidence: 0.9,
+            window: 8,
+            decay: 0.7,
+            minShare: 0.05,
+            ...options,
+        };
+    }
+
+    public register(language: string, model: IAutoCompleter): this {
+        this.models.set(language, model);
+        this.identifier = null;
+        return this;
+    }
+
+    public getModel(language: string): IAutoCompleter | undefined {
+        return this.models.get(language);
+    }
+
+    public getLanguages(): string[] {
+        return [...this.models.keys()];
+    }
+
+    /**
+     * Документы распределяются по моделям по полю language, а без него — по определенному языку.
+     */
+    public train(input: TrainingInput): void {
+        const byLanguage = new Map<string, WeightedDocument[]>();
+
+        for (const document of toTrainingDocuments(input)) {
+            const language = document.language ?? this.detectText(document.text);
+            if (!this.models.has(language)) {
+                throw new Error(`No model registered for language ${language}`);
+            }
+
+            const documents = byLanguage.get(language) ?? [];
+            documents.push(document);
+            byLanguage.set(language, documents);
+        }
+
+        for (const [language, documents] of byLanguage) {
+            this.models.get(language)!.train(documents);
+        }
+
+        this.identifier = null;
+    }
+
+    /**
+     * Доли языков в набираемом тексте, по убыванию.
+     * Недописанное слово из нескольких букв решает само: "Я открыл Rea" — английский.
+     * Иначе каждое слово текущего предложения голосует своими вероятностями языков,
+     * ближние к курсору слова весят больше.
+     */
+    public detect(context: string): LanguageScore[] {
+        const identifier = this.getIdentifier();
+        const {head, fragment} = splitTrailingFragment(context);
+
+        if ((fragment.match(WORD) ?? []).join('').length >= MIN_FRAGMENT_LETTERS) {
+            return identifier.detect(fragment);
+        }
+
+        const sentence = head.split(SENTENCE_END).pop() ?? '';
+        const words = (sentence.match(WORD) ?? []).slice(-this.options.window);
+        if (words.length === 0) {
+            // Пустое предложение: язык предыдущего текста — лучшая догадка
+            return head.trim() ? identifier.detect(head.slice(-200)) : this.uniform();
+        }
+
+        const shares = new Map<string, number>();
+        let total = 0;
+        words.forEach((word, i) => {
+            const weight = Math.pow(this.options.decay, words.length - 1 - i);
+            total += weight;
+            for (const {language, probability} of identifier.detect(word)) {
+                shares.set(language, (shares.get(language) ?? 0) + weight * probability);
+            }
+        });
+
+        return [...shares]
+            .map(([language, share]) => ({language, probability: share / total}))
+            .sort((a, b) => b.probability - a.probability);
+    }
+
+    /**
+     * Подсказки модели уверенно определенного языка либо объединение подсказок
+     * нескольких моделей со score, умноженным на долю языка.
+     */
+    public predict(context: string, topK: number = 5): Suggestion[] {
+        const shares = this.getShares(context);
+        if (shares.length === 1) {
+            return this.models.get(shares[0].language)!.predict(context, topK);
+        }
+
+        return interpolateSuggestions(shares.map(({language, probability}) => ({
+            suggestions: this.models.get(language)!.predict(context, topK),
+            weight: probability,
+        })), topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        // Язык слова определяется вместе с контекстом, как если бы его дописывали сейчас
+        const padding = context === '' || /\s$/.test(context) ? '' : ' ';
+        return this.getShares(context + padding + word).reduce(
+            (sum, {language, probability}) => sum + probability * this.models.get(language)!.scoreWord(context, word),
+            0
+        );
+    }
+
+    public* getVocabulary(): Iterable<string> {
+        const seen = new Set<string>();
+        for (const model of this.models.values()) {
+            for (const word of model.getVocabulary()) {
+                if (seen.has(word)) continue;
+                seen.add(word);
+                yield word;
+            }
+        }
+    }
+
+    // Языки, чьи модели нужно опросить, с нормированными долями
+    private getShares(context: string): LanguageScore[] {
+        const scores = this.detect(context);
+        if (scores.length === 0) {
+            throw new Error('LanguageRegistry has no registered models');
+        }
+
+        if (scores[0].probability >= this.options.confidence) {
+            return [{language: scores[0].language, probability: 1}];
+        }
+
+        const selected = scores.filter(_ => _.probability >= this.options.minShare);
+        const total = selected.reduce((sum, _) => sum + _.probability, 0);
+        return selected.map(_ => ({language: _.language, probability: _.probability / total}));
+    }
+
+    private detectText(text: string): string {
+        const identifier = this.getIdentifier();
+        // Профили берутся из словарей моделей: до первого обучения язык нужно указать явно
+        if (identifier.isEmpty()) {
+            throw new Error('Cannot detect document language before models are trained, set TrainingDocument.language');
+        }
+        return identifier.detect(text.slice(0, 2000))[0].language;
+    }
+
+    private getIdentifier(): LanguageIdentifier {
+        if (this.identifier) return this.identifier;
+
+        const identifier = new LanguageIdentifier();
+        for (const [language, model] of this.models) {
+            identifier.train(language, '');
+            for (const word of model.getVocabulary()) {
+                identifier.train(language, word);
+            }
+        }
+
+        this.identifier = identifier;
+        return identifier;
+    }
+
+    private uniform(): LanguageScore[] {
+        const languages = this.getLanguages();
+        return languages.map(language => ({language, probability: 1 / languages.length}));
+    }
+}
@@ -0,0 +1,156 @@
+// ==========================================
+// Russian Snowball Stemmer
+// ==========================================
+
+/**
+ * Приведение словоформы к основе (классу), общей для ее словоизменительных форм.
+ */
+export interface IStemmer {
+    stem(word: string): string;
+}
+
+const VOWELS = new Set(['а', 'е', 'и', 'о', 'у', 'ы', 'э', 'ю', 'я']);
+
+// Окончания по алгоритму Snowball (M. Porter). Группа 1 допустима только после "а" или "я".
+const PERFECTIVE_GERUND_1 = ['вшись', 'вши', 'в'];
+const PERFECTIVE_GERUND_2 = ['ившись', 'ывшись', 'ивши', 'ывши', 'ив', 'ыв'];
+
+const ADJECTIVE = [
+    'ими', 'ыми', 'его', 'ого', 'ему', 'ому',
+    'ее', 'ие', 'ые', 'ое', 'ей', 'ий', 'ый', 'ой', 'ем', 'им', 'ым', 'ом',
+    'их', 'ых', 'ую', 'юю', 'ая', 'яя', 'ою', 'ею',
+];
+const PARTICIPLE_1 = ['ем', 'нн', 'вш', 'ющ', 'щ'];
+const PARTICIPLE_2 = ['ивш', 'ывш', 'ующ'];
+
+const REFLEXIVE = ['ся', 'сь'];
+
+const VERB_1 = ['ете', 'йте', 'ешь', 'нно', 'ла', 'на', 'ли', 'ем', 'ло', 'но', 'ет', 'ют', 'ны', 'ть', 'й', 'л', 'н'];
+const VERB_2 = [
+    'ейте', 'уйте', 'ила', 'ыла', 'ена', 'ите', 'или', 'ыли', 'ило', 'ыло', 'ено', 'ует', 'уют',
+    'ены', 'ить', 'ыть', 'ишь', 'ей', 'уй', 'ил', 'ыл', 'им', 'ым', 'ен', 'ят', 'ит', 'ыт', 'ую', 'ю',
+];
+
+const NOUN = [
+    'иями', 'ями', 'ами', 'ией', 'иям', 'ием', 'иях',
+    'ев', 'ов', 'ие', 'ье', 'еи', 'ии', 'ей', 'ой', 'ий', 'ям', 'ем', 'ам', 'ом', 'ах', 'ях', 'ию', 'ью', 'ия', 'ья',
+    'а', 'е', 'и', 'й', 'о', 'у', 'ы', 'ь', 'ю', 'я',
+];
+
+const SUPERLATIVE = ['ейше', 'ейш'];
+const DERIVATIONAL = ['ость', 'ост'];
+
+/**
+ * Русский стеммер Snowball.
+ * Отрезает окончания в регионе RV (после первой гласной) в четыре шага:
+ * 1) деепричастие / возвратность + прилагательное, глагол или существительное;
+ * 2) конечная "и"; 3) словообразовательные "ость" в R2; 4) "нн", превосходная степень, "ь".
+ *
+ * Ожидает слово в нижнем регистре с "е" вместо "ё" (как в AdvancedTokenizer).
+ */
+export class RussianStemmer implements IStemmer {
+    public stem(word: string): string {
+        const rvStart = this.findRV(word);
+        // Нет гласной — нечего отрезать (аббревиатуры, числа, латиница)
+        if (rvStart >= word.length) return word;
+
+        const prefix = word.slice(0, rvStart);
+        let rv = word.slice(rvStart);
+        const r2Start = this.findR2(word) - rvStart;
+
+        // Шаг 1
+        const gerund = this.removeEnding(rv, PERFECTIVE_GERUND_2, PERFECTIVE_GERUND_1);
+        if (gerund !== null) {
+            rv = gerund;
+        } else {
+            rv = this.removeEnding(rv, REFLEXIVE) ?? rv;
+
+            const adjectival = this.removeAdjectival(rv);
+            if (adjectival !== null) {
+                rv = adjectival;
+            } else {
+                rv = this.removeEnding(rv, VERB_2, VERB_1) ?? this.removeEnding(rv, NOUN) ?? rv;
+            }
+        }
+
+        // Шаг 2
+        if (rv.endsWith('и')) rv = rv.slice(0, -1);
+
+        // Шаг 3: словообразовательный суффикс должен целиком лежать в R2
+        for (const ending of DERIVATIONAL) {
+            if (rv.endsWith(ending) && rv.length - ending.length >= r2Start) {
+                rv = rv.slice(0, -ending.length);
+                break;
+            }
+        }
+
+        // Шаг 4
+        if (rv.endsWith('нн')) {
+            rv = rv.slice(0, -1);
+        } else {
+            const superlative = this.removeEnding(rv, SUPERLATIVE);
+            if (superlative !== null) {
+                rv = superlative.endsWith('нн') ? superlative.slice(0, -1) : superlative;
+            } else if (rv.endsWith('ь')) {
+                rv = rv.slice(0, -1);
+            }
+        }
+
+        return prefix + rv;
+    }
+
+    /**
+     * Прилагательное, которому может предшествовать причастный суффикс: "-ующ-ий", "-вш-ий".
+     */
+    private removeAdjectival(rv: string): string | null {
+        const withoutAdjective = this.removeEnding(rv, ADJECTIVE);
+        if (withoutAdjective === null) return null;
+
+        return this.removeEnding(withoutAdjective, PARTICIPLE_2, PARTICIPLE_1) ?? withoutAdjective;
+    }
+
+    /**
+     * Отрезает самое длинное подходящее окончание.
+     * Окончания из `afterAorYa` допустимы только после "а"/"я" (сама буква остается).
+     */
+    private removeEnding(rv: string, endings: string[], afterAorYa: string[] = []): string | null {
+        let best: string | null = null;
+
+        for (const ending of endings) {
+            if (rv.endsWith(ending) && (best === null || ending.length > best.length)) {
+                best = ending;
+            }
+        }
+
+        for (const ending of afterAorYa) {
+            if (!rv.endsWith(ending) || (best !== null && ending.length <= best.length)) continue;
+            const preceding = rv[rv.length - ending.length - 1];
+            if (preceding === 'а' || preceding === 'я') {
+                best = ending;
+            }
+        }
+
+        return best === null ? null : rv.slice(0, -best.length);
+    }
+
+    /** RV — часть слова после первой гласной */
+    private findRV(word: string): number {
+        for (let i = 0; i < word.length; i++) {
+            if (VOWELS.has(word[i])) return i + 1;
+        }
+        return word.length;
+    }
+
+    /** R1 — после первой согласной, следующей за гласной; R2 — то же внутри R1 */
+    private findR2(word: string): number {
+        const r1 = this.findRegion(word, 0);
+        return this.findRegion(word, r1);
+    }
+
+    private findRegion(word: string, from: number): number {
+        for (let i = from + 1; i < word.length; i++) {
+            if (!VOWELS.has(word[i]) && VOWELS.has(word[i - 1])) return i + 1;
+        }
+        return word.length;
+    }
+}
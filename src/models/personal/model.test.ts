@@ -0,0 +1,51 @@
+import {describe, expect, it} from 'vitest';
+import {PersonalizedCompleter} from "./model.ts";
+import {getStupidBackoffModel} from "../stupid-backoff/index.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createCompleter = (clock: {now: number}) => new PersonalizedCompleter(getStupidBackoffModel(3), {
+    storage: null,
+    halfLife: 30 * DAY,
+    minCount: 0.1,
+    now: () => clock.now,
+});
+
+describe('PersonalizedCompleter', () => {
+    it('применяет затухание за время хранения при восстановлении', () => {
+        const clock = {now: 0};
+        const saved = createCompleter(clock);
+        saved.learn('Я пью чай с лимоном.');
+        expect(saved.scoreWord('Я пью', 'чай')).toBeGreaterThan(0);
+
+        // Четыре периода полураспада: счетчик 1 становится 1/16 — меньше minCount
+        clock.now = 120 * DAY;
+        const restored = createCompleter(clock);
+        restored.importModel(saved.exportModel());
+
+        expect(restored.scoreWord('Я пью', 'чай')).toBe(0);
+        expect(restored.predict('Я пью ')).toEqual([]);
+    });
+
+    it('применяет затухание перед предсказанием', () => {
+        const clock = {now: 0};
+        const completer = createCompleter(clock);
+        completer.learn('Я пью чай с лимоном.');
+
+        clock.now = 120 * DAY;
+        expect(completer.predict('Я пью ')).toEqual([]);
+    });
+
+    it('не учитывает дважды отредактированное предложение', () => {
+        const clock = {now: 0};
+        const edited = createCompleter(clock);
+        edited.learn('Я пью чай.');
+        edited.learn('Я пью кофе.', 'Я пью чай.');
+
+        const fresh = createCompleter(clock);
+        fresh.learn('Я пью кофе.');
+
+        expect(edited.scoreWord('Я пью', 'чай')).toBe(0);
+        expect(edited.exportArpa()).toBe(fresh.exportArpa());
+    });
+});
@@ -0,0 +1,261 @@
+// ==========================================
+// Personal Adaptive Model
+// ==========================================
+
+import type {IAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import {StupidBackoffModel} from "../stupid-backoff/model.ts";
+import {AdvancedTokenizer} from "../stupid-backoff/tokenizer.ts";
+import {BinaryReader, BinaryWriter} from "../serialization/binary.ts";
+import {interpolateSuggestions} from "../interpolation.ts";
+import {ModelCache} from "../cache/index.ts";
+import {DecayingNGramStore} from "./store.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Заголовок экспортированной модели: сигнатура "USRM" + версия.
+// Внутри — время последнего затухания и сохраненная StupidBackoffModel
+const FORMAT_MAGIC = [0x55, 0x53, 0x52, 0x4d];
+const FORMAT_VERSION = 1;
+
+const STORAGE_DB = 'personal-model';
+const STORAGE_KEY = 'user';
+
+// Затухание чаще раза в час ничего не меняет, а каждый проход перебирает все N-граммы
+const DECAY_INTERVAL = 60 * 60 * 1000;
+// Сколько символов перед принятой подсказкой нужно, чтобы восстановить ее контекст
+const ACCEPT_CONTEXT_LENGTH = 200;
+
+export interface PersonalModelOptions {
+    order: number;
+    // Вес пользовательской модели при интерполяции с базовой (0..1)
+    weight: number;
+    // Через сколько миллисекунд счетчик уменьшается вдвое
+    halfLife: number;
+    // N-граммы с меньшим счетчиком после затухания удаляются
+    minCount: number;
+    // Насколько принятая подсказка весомее слова из набранного текста
+    acceptWeight: number;
+    // Где хранить модель между сессиями; null — только в памяти
+    storage: ModelCache | null;
+    now: () => number;
+}
+
+// Модель пользователя и ее части, которые нужны напрямую (accept, затухание)
+interface UserModel {
+    tokenizer: AdvancedTokenizer;
+    store: DecayingNGramStore;
+    model: StupidBackoffModel;
+    lastDecay: number;
+}
+
+/**
+ * Базовая модель, дополненная моделью пользователя.
+ * Пользовательская модель — отдельная StupidBackoffModel со своим словарем и затухающими счетчиками:
+ * она учится на набранном тексте (learn) и принятых подсказках (accept) и хранится в IndexedDB.
+ * При предсказании score интерполируются: (1 - weight) * base + weight * user.
+ */
+export class PersonalizedCompleter implements IAutoCompleter {
+    private readonly base: IAutoCompleter;
+    private readonly options: PersonalModelOptions;
+    private user: UserModel;
+
+    constructor(base: IAutoCompleter, options: Partial<PersonalModelOptions> = {}) {
+        this.base = base;
+        this.options = {
+            order: 3,
+            weight: 0.3,
+            halfLife: 30 * DAY,
+            minCount: 0.05,
+            acceptWeight: 1,
+            storage: new ModelCache(STORAGE_DB),
+            now: () => Date.now(),
+            ...options,
+        };
+        this.user = this.createUserModel();
+    }
+
+    /**
+     * Обучение базовой модели. Пользовательская учится только через learn и accept.
+     */
+    public train(input: TrainingInput): void {
+        this.base.train(input);
+    }
+
+    /**
+     * Загружает сохраненную модель пользователя. Поврежденная запись удаляется.
+     */
+    public async restore(): Promise<void> {
+        const buffer = await this.options.storage?.get(STORAGE_KEY).catch((e) => {
+            console.warn('Personal model storage is unavailable', e);
+            return undefined;
+        });
+        if (!buffer) return;
+
+        try {
+            this.importModel(buffer);
+        } catch (e) {
+            console.warn('Stored personal model is corrupted, starting from scratch', e);
+            await this.reset();
+        }
+    }
+
+    /**
+     * Учится на завершенном фрагменте текста (предложение, абзац).
+     * replaced — выученный раньше текст, который этот фрагмент заменяет (предложение отредактировали):
+     * его счетчики сначала вычитаются, иначе предложение учлось бы дважды.
+     */
+    public learn(text: string, replaced: string = ''): void {
+        if (!text.trim() && !replaced.trim()) return;
+
+        this.decay();
+        if (replaced.trim()) this.forget(replaced);
+        if (text.trim()) this.user.model.train(text);
+        this.persist();
+    }
+
+    /**
+     * Учится на принятой подсказке. text — текст до курсора вместе с подсказкой:
+     * увеличиваются счетчики только N-грамм, которые заканчиваются принятым словом.
+     */
+    public accept(text: string): void {
+        const {tokenizer, store} = this.user;
+        const [tokens] = tokenizer.tokenizeAll([text.slice(-ACCEPT_CONTEXT_LENGTH)]);
+        // Токенизатор закрывает предложение, но на самом деле оно продолжается
+        if (tokens[tokens.length - 1] === tokenizer.EOS_ID) tokens.pop();
+        if (tokens.length === 0) return;
+
+        this.decay();
+        for (let k = 1; k <= Math.min(this.options.order, tokens.length); k++) {
+            store.increment(tokens.slice(-k), this.options.acceptWeight);
+        }
+        this.persist();
+    }
+
+    /**
+     * "Забыть мои данные": очищает модель пользователя в памяти и в хранилище.
+     */
+    public async reset(): Promise<void> {
+        this.user = this.createUserModel();
+        await this.options.storage?.delete(STORAGE_KEY).catch((e) => {
+            console.warn('Failed to delete personal model', e);
+        });
+    }
+
+    /**
+     * Формат: MAGIC | VERSION | время последнего затухания (float64) | длина | StupidBackoffModel.save().
+     */
+    public exportModel(): ArrayBuffer {
+        const model = new Uint8Array(this.user.model.save());
+        const writer = new BinaryWriter();
+        FORMAT_MAGIC.forEach(byte => writer.writeUint8(byte));
+        writer.writeUint8(FORMAT_VERSION);
+        writer.writeFloat64(this.user.lastDecay);
+        writer.writeVarUint(model.length);
+        writer.writeBytes(model);
+        return writer.toArrayBuffer();
+    }
+
+    public importModel(buffer: ArrayBuffer): void {
+        const reader = new BinaryReader(buffer);
+        for (const byte of FORMAT_MAGIC) {
+            if (reader.readUint8() !== byte) {
+                throw new Error("Not a serialized personal model");
+            }
+        }
+
+        const version = reader.readUint8();
+        if (version !== FORMAT_VERSION) {
+            throw new Error(`Unsupported personal model format version: ${version}`);
+        }
+
+        const lastDecay = reader.readFloat64();
+        const bytes = reader.readBytes(reader.readVarUint()).slice();
+
+        // Загружаем в новую модель, чтобы ошибка не оставила текущую наполовину перезаписанной
+        const user = this.createUserModel();
+        user.model.load(bytes.buffer);
+        user.lastDecay = lastDecay;
+        this.user = user;
+        // Модель могла пролежать в хранилище долго: счетчики должны соответствовать текущему времени
+        this.decay();
+    }
+
+    /**
+     * Модель пользователя в текстовом формате ARPA — посмотреть, что о нем запомнено.
+     */
+    public exportArpa(): string {
+        return this.user.model.toArpa();
+    }
+
+    public predict(context: string, topK: number = 5): Suggestion[] {
+        this.decay();
+        if (this.user.store.isEmpty()) {
+            return this.base.predict(context, topK);
+        }
+
+        return interpolateSuggestions([
+            {suggestions: this.base.predict(context, topK), weight: 1 - this.options.weight},
+            {suggestions: this.user.model.predict(context, topK), weight: this.options.weight},
+        ], topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        const base = this.base.scoreWord(context, word);
+        this.decay();
+        if (this.user.store.isEmpty()) return base;
+
+        return (1 - this.options.weight) * base + this.options.weight * this.user.model.scoreWord(context, word);
+    }
+
+    public* getVocabulary(): Iterable<string> {
+        const seen = new Set<string>();
+        for (const word of this.base.getVocabulary()) {
+            seen.add(word);
+            yield word;
+        }
+        // Пустые после затухания слова остаются в словаре токенизатора, но предлагать их нечего
+        for (const word of this.user.model.getVocabulary()) {
+            if (!seen.has(word) && this.user.model.scoreWord('', word) > 0) yield word;
+        }
+    }
+
+    private createUserModel(): UserModel {
+        const tokenizer = new AdvancedTokenizer();
+        const store = new DecayingNGramStore();
+        return {
+            tokenizer,
+            store,
+            model: new StupidBackoffModel(this.options.order, tokenizer, store),
+            lastDecay: this.options.now(),
+        };
+    }
+
+    /**
+     * Вычитает N-граммы текста — те же, что добавил бы train.
+     */
+    private forget(text: string): void {
+        const {tokenizer, store} = this.user;
+        const [tokens] = tokenizer.tokenizeAll([text]);
+        for (let i = 0; i < tokens.length; i++) {
+            for (let k = 1; k <= Math.min(this.options.order, i + 1); k++) {
+                store.decrement(tokens.slice(i - k + 1, i + 1));
+            }
+        }
+    }
+
+    private decay(): void {
+        const now = this.options.now();
+        const elapsed = now - this.user.lastDecay;
+        if (elapsed < DECAY_INTERVAL) return;
+
+        this.user.store.decay(Math.pow(0.5, elapsed / this.options.halfLife), this.options.minCount);
+        this.user.lastDecay = now;
+    }
+
+    // Сохранение в фоне: ошибка хранилища не должна мешать набору текста
+    private persist(): void {
+        this.options.storage?.set(STORAGE_KEY, this.exportModel()).catch((e) => {
+            console.warn('Failed to save personal model', e);
+        });
+    }
+}
@@ -0,0 +1,69 @@
+// ==========================================
+// Decaying NGram Storage
+// ==========================================
+
+import {NGramStore} from "../stupid-backoff/store.ts";
+import type {NGramKey} from "../stupid-backoff/store.ts";
+import type {TokenID} from "../stupid-backoff/tokenizer.ts";
+
+// Остаток счетчика после вычитания, который считается нулем (погрешность дробных счетчиков)
+const EPSILON = 1e-9;
+
+/**
+ * Хранилище счетчиков, которые со временем "забываются".
+ * decay умножает все счетчики на коэффициент и удаляет N-граммы, ставшие слишком редкими,
+ * поэтому размер хранилища не растет бесконечно, а старые привычки уступают новым.
+ */
+export class DecayingNGramStore extends NGramStore {
+    public decay(factor: number, minCount: number): void {
+        if (factor >= 1) return;
+
+        // Сумма оставшихся униграмм: удаленные не должны занижать частоты остальных
+        this.totalTokens = 0;
+        for (const [key, count] of this.counts) {
+            const decayed = count * factor;
+            if (decayed >= minCount) {
+                this.counts.set(key, decayed);
+                if (!key.includes(',')) this.totalTokens += decayed;
+                continue;
+            }
+
+            this.remove(key);
+        }
+    }
+
+    /**
+     * Вычитает ранее добавленные счетчики (выученный текст отредактировали и учат заново).
+     * Счетчик не уходит ниже нуля: после затухания от N-граммы могло остаться меньше weight.
+     */
+    public decrement(ngram: TokenID[], weight: number = 1): void {
+        const key = this.toKey(ngram);
+        const count = this.counts.get(key);
+        if (count === undefined) return;
+
+        const removed = Math.min(count, weight);
+        if (ngram.length === 1) this.totalTokens -= removed;
+
+        if (count - removed > EPSILON) {
+            this.counts.set(key, count - removed);
+        } else {
+            this.remove(key);
+        }
+    }
+
+    public isEmpty(): boolean {
+        return this.counts.size === 0;
+    }
+
+    private remove(key: NGramKey): void {
+        this.counts.delete(key);
+        // Удаленная N-грамма больше не кандидат для своего контекста
+        const ngram = this.fromKey(key);
+        if (ngram.length > 1) {
+            const contextKey = this.toKey(ngram.slice(0, -1));
+            const candidates = this.contextMap.get(contextKey);
+            candidates?.delete(ngram[ngram.length - 1]);
+            if (candidates?.size === 0) this.contextMap.delete(contextKey);
+        }
+    }
+}
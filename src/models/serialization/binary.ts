@@ -0,0 +1,138 @@
+// ==========================================
+// Binary Serialization Primitives
+// ==========================================
+
+/**
+ * Объект, умеющий записывать себя в бинарный поток и восстанавливаться из него.
+ */
+export interface ISerializable {
+    serialize(writer: BinaryWriter): void;
+    deserialize(reader: BinaryReader): void;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Запись в растущий буфер.
+ * Целые числа пишутся в формате LEB128 (varint): маленькие ID и счетчики,
+ * которых в модели подавляющее большинство, занимают 1-2 байта вместо 4.
+ */
+export class BinaryWriter {
+    private buffer: Uint8Array = new Uint8Array(1024);
+    private offset: number = 0;
+
+    public writeUint8(value: number): void {
+        this.ensure(1);
+        this.buffer[this.offset++] = value;
+    }
+
+    /**
+     * Беззнаковое целое переменной длины (до 2^53).
+     */
+    public writeVarUint(value: number): void {
+        if (!Number.isSafeInteger(value) || value < 0) {
+            throw new Error(`Cannot encode ${value} as varint`);
+        }
+        // Побитовые операции в JS 32-битные, поэтому делим арифметически
+        while (value >= 0x80) {
+            this.writeUint8((value % 0x80) | 0x80);
+            value = Math.floor(value / 0x80);
+        }
+        this.writeUint8(value);
+    }
+
+    public writeFloat64(value: number): void {
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setFloat64(0, value, true);
+        this.writeBytes(bytes);
+    }
+
+    public writeString(value: string): void {
+        const bytes = encoder.encode(value);
+        this.writeVarUint(bytes.length);
+        this.writeBytes(bytes);
+    }
+
+    public writeBytes(bytes: Uint8Array): void {
+        this.ensure(bytes.length);
+        this.buffer.set(bytes, this.offset);
+        this.offset += bytes.length;
+    }
+
+    /**
+     * Возвращает копию записанных данных точного размера.
+     */
+    public toArrayBuffer(): ArrayBuffer {
+        return this.buffer.slice(0, this.offset).buffer;
+    }
+
+    private ensure(size: number): void {
+        if (this.offset + size <= this.buffer.length) return;
+
+        let capacity = this.buffer.length * 2;
+        while (capacity < this.offset + size) capacity *= 2;
+
+        const next = new Uint8Array(capacity);
+        next.set(this.buffer.subarray(0, this.offset));
+        this.buffer = next;
+    }
+}
+
+/**
+ * Последовательное чтение буфера, записанного BinaryWriter.
+ */
+export class BinaryReader {
+    private readonly bytes: Uint8Array;
+    private offset: number = 0;
+
+    constructor(buffer: ArrayBuffer) {
+        this.bytes = new Uint8Array(buffer);
+    }
+
+    public readUint8(): number {
+        this.ensure(1);
+        return this.bytes[this.offset++];
+    }
+
+    public readVarUint(): number {
+        let result = 0;
+        let multiplier = 1;
+        while (true) {
+            const byte = this.readUint8();
+            result += (byte & 0x7f) * multiplier;
+            if ((byte & 0x80) === 0) return result;
+            multiplier *= 0x80;
+            if (multiplier > Number.MAX_SAFE_INTEGER) {
+                throw new Error("Malformed varint");
+            }
+        }
+    }
+
+    public readFloat64(): number {
+        const bytes = this.readBytes(8);
+        return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0, true);
+    }
+
+    public readString(): string {
+        const length = this.readVarUint();
+        return decoder.decode(this.readBytes(length));
+    }
+
+    public readBytes(length: number): Uint8Array {
+        this.ensure(length);
+        const slice = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return slice;
+    }
+
+    public isEOF(): boolean {
+        return this.offset >= this.bytes.length;
+    }
+
+    private ensure(size: number): void {
+        if (this.offset + size > this.bytes.length) {
+            throw new Error("Unexpected end of binary data");
+        }
+    }
+}
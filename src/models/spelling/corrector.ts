@@ -0,0 +1,163 @@
+// ==========================================
+// Noisy-channel Spelling Correction
+// ==========================================
+
+import type {IAutoCompleter} from "../interface.ts";
+import {editDistance} from "./distance.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+
+const WORD = /\p{L}[\p{L}-]*/gu;
+
+export interface Correction {
+    // Позиция слова в тексте: text.slice(start, end) === word
+    start: number;
+    end: number;
+    word: string;
+    replacement: string;
+    // Во сколько раз исправленный вариант вероятнее исходного
+    confidence: number;
+}
+
+export interface SpellingCorrectorOptions {
+    // Максимальное (взвешенное) расстояние от слова до кандидата
+    maxEditDistance: number;
+    // Вероятность одной ошибки при наборе: P(w|c) = errorRate^distance
+    errorRate: number;
+    // Вероятность набрать слово без ошибок: P(w|w)
+    correctRate: number;
+    // Минимальный перевес исправления над исходным словом
+    minConfidence: number;
+    // Слова короче этого не проверяем: в них слишком мало информации
+    minWordLength: number;
+}
+
+const DEFAULT_OPTIONS: SpellingCorrectorOptions = {
+    maxEditDistance: 2,
+    errorRate: 0.01,
+    correctRate: 0.95,
+    minConfidence: 2,
+    minWordLength: 3,
+};
+
+// Кандидаты зависят только от слова, не от контекста — их можно кэшировать
+const CANDIDATE_CACHE_LIMIT = 5000;
+// N-граммной модели нужны лишь последние слова: не токенизируем весь текст ради каждого слова
+const CONTEXT_WINDOW = 200;
+
+interface Candidate {
+    word: string;
+    distance: number;
+}
+
+/**
+ * Исправление уже набранных слов по модели зашумленного канала (noisy channel):
+ *
+ * c* = argmax_c P(c | контекст) * P(w | c)
+ *
+ * P(c | контекст) — языковая модель (IAutoCompleter.scoreWord),
+ * P(w | c) — модель ошибок на основе взвешенного расстояния Дамерау-Левенштейна.
+ * Поскольку само слово w тоже участвует как кандидат, находятся и ошибки,
+ * дающие существующее, но маловероятное в контексте слово ("мама мыла рану").
+ */
+export class SpellingCorrector {
+    private readonly model: IAutoCompleter;
+    private readonly options: SpellingCorrectorOptions;
+    private vocabulary: string[] = [];
+    private candidateCache: Map<string, Candidate[]> = new Map();
+
+    constructor(model: IAutoCompleter, options: Partial<SpellingCorrectorOptions> = {}) {
+        this.model = model;
+        this.options = {...DEFAULT_OPTIONS, ...options};
+        this.refreshVocabulary();
+    }
+
+    /**
+     * Перечитывает словарь модели (например, после дообучения).
+     */
+    public refreshVocabulary(): void {
+        this.vocabulary = Array.from(this.model.getVocabulary());
+        this.candidateCache.clear();
+    }
+
+    /**
+     * Проверяет все завершенные слова текста.
+     * Последнее слово, если пользователь его еще набирает, не проверяется.
+     */
+    public check(text: string): Correction[] {
+        const {head} = splitTrailingFragment(text);
+        const corrections: Correction[] = [];
+
+        for (const match of head.matchAll(WORD)) {
+            const word = match[0];
+            if (Array.from(word).length < this.options.minWordLength) continue;
+
+            const start = match.index;
+            const context = head.slice(Math.max(0, start - CONTEXT_WINDOW), start);
+            const correction = this.correctWord(context, word);
+            if (correction) {
+                corrections.push({start, end: start + word.length, word, ...correction});
+            }
+        }
+
+        return corrections;
+    }
+
+    private correctWord(context: string, word: string): Pick<Correction, 'replacement' | 'confidence'> | null {
+        const normalized = word.toLocaleLowerCase();
+        const originalScore = this.model.scoreWord(context, normalized) * this.options.correctRate;
+
+        let best: { word: string; score: number } | null = null;
+        for (const candidate of this.getCandidates(normalized)) {
+            const channel = Math.pow(this.options.errorRate, candidate.distance);
+            const score = this.model.scoreWord(context, candidate.word) * channel;
+            if (!best || score > best.score) {
+                best = {word: candidate.word, score};
+            }
+        }
+
+        if (!best || best.score <= 0) return null;
+
+        // Неизвестное модели слово (score 0) уступает любому правдоподобному кандидату
+        const confidence = originalScore > 0 ? best.score / originalScore : Infinity;
+        if (confidence < this.options.minConfidence) return null;
+
+        return {replacement: matchCase(word, best.word), confidence};
+    }
+
+    /**
+     * Слова словаря на расстоянии (0, maxEditDistance] от данного.
+     */
+    private getCandidates(word: string): Candidate[] {
+        const cached = this.candidateCache.get(word);
+        if (cached) return cached;
+
+        const candidates: Candidate[] = [];
+        for (const entry of this.vocabulary) {
+            if (entry === word) continue;
+            const distance = editDistance(word, entry, {maxDistance: this.options.maxEditDistance});
+            if (distance !== Infinity) {
+                candidates.push({word: entry, distance});
+            }
+        }
+
+        if (this.candidateCache.size >= CANDIDATE_CACHE_LIMIT) {
+            this.candidateCache.clear();
+        }
+        this.candidateCache.set(word, candidates);
+
+        return candidates;
+    }
+}
+
+/**
+ * Переносит регистр исходного слова на исправление: "Ркволюция" -> "Революция", "США" -> "СЩА".
+ */
+const matchCase = (source: string, target: string): string => {
+    if (source.length > 1 && source === source.toLocaleUpperCase()) {
+        return target.toLocaleUpperCase();
+    }
+    if (source[0] !== source[0].toLocaleLowerCase()) {
+        return target[0].toLocaleUpperCase() + target.slice(1);
+    }
+    return target;
+};
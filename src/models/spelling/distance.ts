@@ -0,0 +1,71 @@
+// ==========================================
+// Weighted Damerau-Levenshtein Distance
+// ==========================================
+
+import {areAdjacentKeys} from "./keyboard.ts";
+
+// Промах по соседней клавише — самая частая опечатка, она "дешевле" обычной замены
+export const ADJACENT_KEY_COST = 0.5;
+
+export interface DistanceOptions {
+    // Расстояния больше этого порога не интересны: считаем их Infinity и прерываем расчет
+    maxDistance: number;
+    // Сравнивать `source` с любым префиксом `target` (для недописанных слов)
+    prefix?: boolean;
+}
+
+const substitutionCost = (a: string, b: string): number => {
+    if (a === b) return 0;
+    return areAdjacentKeys(a, b) ? ADJACENT_KEY_COST : 1;
+};
+
+/**
+ * Расстояние Дамерау-Левенштейна (вариант optimal string alignment):
+ * вставка, удаление, замена и перестановка соседних символов.
+ * Замена на соседнюю по клавиатуре клавишу стоит ADJACENT_KEY_COST.
+ *
+ * В режиме prefix результат — минимальное расстояние от `source`
+ * до какого-либо префикса `target` ("ркво" ~ "рево|люция").
+ */
+export const editDistance = (source: string, target: string, options: DistanceOptions): number => {
+    const a = Array.from(source);
+    // В режиме префикса хвост target длиннее |a| + max все равно не может участвовать
+    const b = Array.from(target).slice(0, options.prefix ? a.length + Math.ceil(options.maxDistance) + 1 : undefined);
+
+    if (!options.prefix && Math.abs(a.length - b.length) > options.maxDistance) {
+        return Infinity;
+    }
+
+    // Три строки DP-матрицы: две предыдущие нужны для перестановки
+    let beforePrevious: number[] = [];
+    let previous: number[] = Array.from({length: b.length + 1}, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current: number[] = [i];
+        let rowMin = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            let value = Math.min(
+                previous[j] + 1,                                        // удаление
+                current[j - 1] + 1,                                     // вставка
+                previous[j - 1] + substitutionCost(a[i - 1], b[j - 1]), // замена
+            );
+
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, beforePrevious[j - 2] + 1);     // перестановка
+            }
+
+            current.push(value);
+            rowMin = Math.min(rowMin, value);
+        }
+
+        // Ни одна ячейка строки не укладывается в порог — дальше будет только хуже
+        if (rowMin > options.maxDistance) return Infinity;
+
+        beforePrevious = previous;
+        previous = current;
+    }
+
+    const distance = options.prefix ? Math.min(...previous) : previous[b.length];
+    return distance <= options.maxDistance ? distance : Infinity;
+};
@@ -0,0 +1,39 @@
+// ==========================================
+// Fuzzy Vocabulary Lookup
+// ==========================================
+
+import type {ITokenizer, TokenID} from "../stupid-backoff/tokenizer.ts";
+import {editDistance} from "./distance.ts";
+
+export interface FuzzyMatch {
+    id: TokenID;
+    distance: number;
+}
+
+/**
+ * Ищет в словаре токенизатора слова, близкие к `query` по взвешенному расстоянию
+ * Дамерау-Левенштейна. Служебные токены (<S>, </S>, <UNK>) пропускаются.
+ *
+ * @param query Нормализованная строка (см. ITokenizer.normalize).
+ * @param prefix Сравнивать query с префиксами слов (для недописанного слова).
+ */
+export const findFuzzyMatches = (
+    tokenizer: ITokenizer,
+    query: string,
+    maxDistance: number,
+    prefix: boolean,
+): FuzzyMatch[] => {
+    const matches: FuzzyMatch[] = [];
+    const size = tokenizer.getVocabSize();
+
+    for (let id = 0; id < size; id++) {
+        if (id === tokenizer.UNK_ID || id === tokenizer.BOS_ID || id === tokenizer.EOS_ID) continue;
+
+        const distance = editDistance(query, tokenizer.getWord(id), {maxDistance, prefix});
+        if (distance !== Infinity) {
+            matches.push({id, distance});
+        }
+    }
+
+    return matches;
+};
@@ -0,0 +1,61 @@
+// ==========================================
+// Keyboard Layouts
+// ==========================================
+
+/**
+ * Ряды клавиш основных раскладок (без Shift).
+ * Индекс символа в ряду — номер клавиши, поэтому ряды разных раскладок
+ * можно сопоставлять посимвольно (одна и та же физическая клавиша).
+ */
+export const KEYBOARD_LAYOUTS = {
+    qwerty: [
+        "`1234567890-=",
+        "qwertyuiop[]",
+        "asdfghjkl;'",
+        "zxcvbnm,./",
+    ],
+    jcuken: [
+        "ё1234567890-=",
+        "йцукенгшщзхъ",
+        "фывапролджэ",
+        "ячсмитьбю.",
+    ],
+} as const;
+
+export type KeyboardLayout = keyof typeof KEYBOARD_LAYOUTS;
+
+/**
+ * Для каждого символа — множество символов на соседних клавишах той же раскладки
+ * (по горизонтали, вертикали и диагонали).
+ */
+const buildAdjacency = (): Map<string, Set<string>> => {
+    const adjacency = new Map<string, Set<string>>();
+
+    for (const rows of Object.values(KEYBOARD_LAYOUTS)) {
+        rows.forEach((row, r) => {
+            Array.from(row).forEach((char, c) => {
+                const neighbours = adjacency.get(char) ?? new Set<string>();
+                for (let dr = -1; dr <= 1; dr++) {
+                    const neighbourRow = rows[r + dr];
+                    if (!neighbourRow) continue;
+                    for (let dc = -1; dc <= 1; dc++) {
+                        const neighbour = neighbourRow[c + dc];
+                        if (neighbour && neighbour !== char) neighbours.add(neighbour);
+                    }
+                }
+                adjacency.set(char, neighbours);
+            });
+        });
+    }
+
+    return adjacency;
+};
+
+const ADJACENCY = buildAdjacency();
+
+/**
+ * Находятся ли символы на соседних клавишах (в любой из поддерживаемых раскладок).
+ */
+export const areAdjacentKeys = (a: string, b: string): boolean => {
+    return ADJACENCY.get(a)?.has(b) ?? false;
+};
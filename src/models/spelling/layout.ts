@@ -0,0 +1,99 @@
+// ==========================================
+// Keyboard Layout Conversion
+// ==========================================
+
+import {KEYBOARD_LAYOUTS} from "./keyboard.ts";
+import type {KeyboardLayout} from "./keyboard.ts";
+import type {SplitText} from "../fragment.ts";
+
+/**
+ * Посимвольное отображение одной раскладки в другую:
+ * символ -> символ на той же физической клавише.
+ */
+const buildMapping = (from: KeyboardLayout, to: KeyboardLayout): Map<string, string> => {
+    const mapping = new Map<string, string>();
+    KEYBOARD_LAYOUTS[from].forEach((row, r) => {
+        const target = KEYBOARD_LAYOUTS[to][r];
+        Array.from(row).forEach((char, c) => {
+            if (target[c] && target[c] !== char) mapping.set(char, target[c]);
+        });
+    });
+    return mapping;
+};
+
+const MAPPINGS: Record<KeyboardLayout, Record<KeyboardLayout, Map<string, string>>> = {
+    qwerty: {qwerty: new Map(), jcuken: buildMapping('qwerty', 'jcuken')},
+    jcuken: {jcuken: new Map(), qwerty: buildMapping('jcuken', 'qwerty')},
+};
+
+/**
+ * Клавиши, которые в другой раскладке дают буквы: "," — это "б", ";" — "ж", "[" — "х".
+ */
+const LETTER_KEYS: Set<string> = new Set(
+    Object.values(MAPPINGS)
+        .flatMap(targets => Object.values(targets))
+        .flatMap(mapping => [...mapping])
+        .filter(([char, target]) => !/\p{L}/u.test(char) && /\p{L}/u.test(target))
+        .map(([char]) => char)
+);
+
+const isFragmentChar = (char: string): boolean => /[\p{L}\p{N}-]/u.test(char) || LETTER_KEYS.has(char);
+
+/**
+ * Как splitTrailingFragment, но слово может содержать клавиши, дающие буквы в другой раскладке:
+ * в ";bpym" или "k.,jdm" splitTrailingFragment увидит только "bpym" и "jdm".
+ * Для проверки раскладки нужно все слово: ";bpym" -> "жизнь", "k.,jdm" -> "любовь".
+ */
+export const splitLayoutFragment = (text: string): SplitText => {
+    let start = text.length;
+    while (start > 0 && isFragmentChar(text[start - 1])) start--;
+    // Дефис в начале — не часть слова
+    while (text[start] === '-') start++;
+
+    return {head: text.slice(0, start), fragment: text.slice(start)};
+};
+
+/**
+ * Перепечатывает текст так, как если бы он был набран в другой раскладке:
+ * convertLayout("ghbdtn", "qwerty", "jcuken") === "привет".
+ * Регистр сохраняется, символы без пары остаются как есть.
+ */
+export const convertLayout = (text: string, from: KeyboardLayout, to: KeyboardLayout): string => {
+    const mapping = MAPPINGS[from][to];
+    return Array.from(text, (char) => {
+        const lower = char.toLocaleLowerCase();
+        const converted = mapping.get(lower);
+        if (!converted) return char;
+        return lower === char ? converted : converted.toLocaleUpperCase();
+    }).join('');
+};
+
+export interface LayoutConversion {
+    from: KeyboardLayout;
+    to: KeyboardLayout;
+    text: string;
+}
+
+/**
+ * Варианты текста в других раскладках.
+ * Рассматриваются только раскладки, в которых набраны ВСЕ буквы текста:
+ * "ghbdtn" целиком состоит из клавиш QWERTY, поэтому даст вариант в ЙЦУКЕН.
+ */
+export const getLayoutConversions = (text: string): LayoutConversion[] => {
+    const conversions: LayoutConversion[] = [];
+    const letters = Array.from(text.toLocaleLowerCase()).filter(char => /\p{L}/u.test(char));
+    if (letters.length === 0) return conversions;
+
+    for (const from of Object.keys(MAPPINGS) as KeyboardLayout[]) {
+        for (const to of Object.keys(MAPPINGS[from]) as KeyboardLayout[]) {
+            if (from === to) continue;
+
+            const mapping = MAPPINGS[from][to];
+            if (letters.every(char => mapping.has(char))) {
+                conversions.push({from, to, text: convertLayout(text, from, to)});
+            }
+        }
+    }
+
+    return conversions;
+};
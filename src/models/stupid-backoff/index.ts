@@ -1,7 +1,35 @@
 import {StupidBackoffModel} from "./model.ts";
 import {AdvancedTokenizer} from "./tokenizer.ts";
 import {NGramStore} from "./store.ts";
+import {CharPPMCompleter} from "../PPM/char-model.ts";
+import {RussianStemmer} from "../morphology/russian-stemmer.ts";
 
-export const getStupidBackoffModel = () =>{
-    return new StupidBackoffModel(3, new AdvancedTokenizer(), new NGramStore()); // Триграммы
+export interface StupidBackoffModelConfig {
+    // Отступ на уровень основ слов (русский стеммер Snowball)
+    stemming?: boolean;
+    // Слова реже minCount при обучении заменяются на <UNK>
+    minCount?: number;
+    // Язык корпуса: локаль нижнего регистра; стеммер есть только для русского
+    locale?: string;
+    // Коэффициент отступа Stupid Backoff (0.4 по умолчанию)
+    alpha?: number;
+    // Порядок символьной PPM-модели, дописывающей незнакомые слова (4 по умолчанию)
+    fragmentOrder?: number;
+}
+
+export const getStupidBackoffModel = (order: number = 3, config: StupidBackoffModelConfig = {}) =>{
+    const locale = config.locale ?? 'ru';
+    const stemming = Boolean(config.stemming) && locale === 'ru';
+    const tokenizer = new AdvancedTokenizer({
+        stemmer: stemming ? new RussianStemmer() : null,
+        locale,
+    });
+
+    return new StupidBackoffModel(order, tokenizer, new NGramStore(), { // По умолчанию триграммы
+        fragmentFallback: new CharPPMCompleter(config.fragmentOrder),
+        maxEditDistance: 1,
+        classStore: stemming ? new NGramStore() : undefined,
+        minCount: config.minCount,
+        alpha: config.alpha,
+    });
 };
\ No newline at end of file
@@ -0,0 +1,43 @@
+import {describe, expect, it} from 'vitest';
+import {getStupidBackoffModel} from "./index.ts";
+
+const CORPUS = 'Привет, мир. Великая революция началась. Революционеры шли. Революционерка пела. ' +
+    'Это было не так, т.е. нет. Переворот и переворотный момент. Революционная армия. Я живу в Москве. Москва большая.';
+
+describe('StupidBackoffModel', () => {
+    const model = getStupidBackoffModel(3);
+    model.train(CORPUS);
+
+    const words = (text: string) => model.predict(text).map(_ => _.word);
+
+    describe('исправление опечаток', () => {
+        it('не исправляет правильно набранное слово', () => {
+            expect(model.predict('Я живу. Москва').filter(_ => _.replace)).toEqual([]);
+        });
+
+        it('не исправляет префикс, у которого есть точные дополнения', () => {
+            const suggestions = model.predict('Я живу в Моск');
+            expect(suggestions.length).toBeGreaterThan(0);
+            expect(suggestions.filter(_ => _.replace)).toEqual([]);
+        });
+
+        it('исправляет опечатку, у которой нет точных дополнений', () => {
+            const [first] = model.predict('Я живу в Мсокве');
+            expect(first).toMatchObject({word: 'Москве', replace: true});
+        });
+    });
+
+    describe('посимвольное дописывание', () => {
+        it('дописывает слово с незнакомым началом', () => {
+            expect(words('Контрреволюц')).toContain('Контрреволюция');
+        });
+
+        it('не дописывает известный префикс', () => {
+            expect(words('Это было т.е. не')).toEqual(['нет']);
+        });
+
+        it('не дополняет исправление раскладки', () => {
+            expect(words('ghbdtn')).toEqual(['Привет']);
+        });
+    });
+});
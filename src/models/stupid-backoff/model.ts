@@ -2,14 +2,61 @@
 // Stupid Backoff Logic Engine
 // ==========================================
 
-import type {IAutoCompleter, Suggestion} from "../interface.ts";
+import type {IFragmentCompleter, IPersistentAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
 import type {ITokenizer, TokenID} from "./tokenizer.ts";
 import type {INGramStore} from "./store.ts";
+import {BinaryReader, BinaryWriter} from "../serialization/binary.ts";
+import {writeArpa} from "../arpa/writer.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+import {findFuzzyMatches} from "../spelling/fuzzy.ts";
+import {getLayoutConversions, splitLayoutFragment} from "../spelling/layout.ts";
+import {recase} from "../casing.ts";
+import {toTrainingDocuments} from "../training.ts";
+import {expandClassSuggestion, generateClassValues, isClassToken, TOKEN_CLASSES} from "../tokenizer/index.ts";
 
-// Константа Alpha из оригинальной статьи Google (Brants et al., 2007)
-const ALPHA = 0.4;
+// Alpha по умолчанию — из оригинальной статьи Google (Brants et al., 2007)
+const DEFAULT_ALPHA = 0.4;
 // Максимальный порядок N-граммы (например, 3 для триграмм: context из 2 слов -> прогноз 1 слова)
 
+// Заголовок бинарного формата: сигнатура "SBKO" + версия.
+// Версию нужно поднимать при любом несовместимом изменении формата.
+const FORMAT_MAGIC = [0x53, 0x42, 0x4b, 0x4f];
+// v2: после хранилища записывается необязательная секция символьной fallback-модели
+// v3: за ней — необязательное хранилище N-грамм морфологических классов
+// v4: словарь токенизатора хранит статистику регистра слов
+// v5: знаки препинания — токены словаря (формат тот же, но старые модели обучены без них)
+// v6: числа, даты, URL и e-mail — токены классов ("<YEAR>")
+// v7: счетчики могут быть дробными (взвешенные документы)
+const FORMAT_VERSION = 7;
+
+// Штраф за каждую единицу расстояния редактирования при нечетком поиске
+const FUZZY_PENALTY = 0.1;
+// На слишком коротких фрагментах нечеткий поиск находит почти весь словарь
+const MIN_FUZZY_LENGTH = 3;
+// Во сколько раз фрагмент в другой раскладке должен быть вероятнее исходного,
+// чтобы предложить замену ("ghbdtn" -> "привет")
+const LAYOUT_SWITCH_RATIO = 10;
+const MIN_LAYOUT_LENGTH = 3;
+// Сколько самых частых словоформ предлагать для класса, предсказанного по основам
+const SURFACE_FORMS_PER_CLASS = 2;
+
+/**
+ * Необязательные компоненты модели.
+ */
+export interface StupidBackoffOptions {
+    // Дописывает слово, если в словаре нет ни одного слова с таким префиксом
+    fragmentFallback?: IFragmentCompleter;
+    // Максимальное расстояние Дамерау-Левенштейна для исправления опечаток во фрагменте (0 — выключено)
+    maxEditDistance?: number;
+    // Счетчики N-грамм по морфологическим классам (ITokenizer.getClassId) для отступа
+    // на уровень основ, когда контекст в таком виде не встречался
+    classStore?: INGramStore;
+    // Слова, встретившиеся в обучающем тексте реже minCount раз, заменяются на <UNK> (1 — выключено)
+    minCount?: number;
+    // Множитель score при каждом отступе к более короткому контексту
+    alpha?: number;
+}
+
 
 /**
  * STUPID BACKOFF AUTOCOMPLETE IMPLEMENTATION
@@ -17,7 +64,7 @@ const ALPHA = 0.4;
  * Описание:
  * Это реализация N-граммной языковой модели с алгоритмом сглаживания "Stupid Backoff".
  * Вместо того, чтобы просто возвращать 0, если N-грамма не найдена, мы "отступаем" (backoff)
- * к (N-1)-грамме и умножаем результат на коэффициент alpha (обычно 0.4).
+ * к (N-1)-грамме и умножаем результат на коэффициент alpha (по умолчанию 0.4).
  *
  * Формула:
  * S(w|h) = count(h+w) / count(h)  (если найдено)
@@ -30,37 +77,127 @@ const ALPHA = 0.4;
  * Ядро алгоритма.
  * Отвечает за расчет вероятностей
  */
-export class StupidBackoffModel implements IAutoCompleter {
+export class StupidBackoffModel implements IPersistentAutoCompleter {
     private tokenizer: ITokenizer;
     private store: INGramStore;
     private n: number; // Order (например, 3 для триграмм)
+    private fragmentFallback?: IFragmentCompleter;
+    private maxEditDistance: number;
+    private classStore?: INGramStore;
+    private minCount: number;
+    private alpha: number;
 
-    constructor(order: number, tokenizer: ITokenizer, store: INGramStore) {
+    constructor(order: number, tokenizer: ITokenizer, store: INGramStore, options: StupidBackoffOptions = {}) {
         this.tokenizer = tokenizer;
         this.store = store;
         this.n = order;
+        this.fragmentFallback = options.fragmentFallback;
+        this.maxEditDistance = options.maxEditDistance ?? 0;
+        this.classStore = options.classStore;
+        this.minCount = options.minCount ?? 1;
+        this.alpha = options.alpha ?? DEFAULT_ALPHA;
     }
 
     /**
-     * Обучение модели на сыром тексте.
-     * Проходит скользящим окном по токенам и сохраняет N-граммы всех порядков (1..N).
+     * Обучение модели на сыром тексте или наборе документов.
+     * Проходит скользящим окном по токенам каждого документа и сохраняет N-граммы всех порядков (1..N),
+     * увеличивая счетчики на вес документа.
      */
-    public train(text: string): void {
-        const tokens = this.tokenizer.tokenize(text);
+    public train(input: TrainingInput): void {
+        const documents = toTrainingDocuments(input);
+        const streams = this.tokenizer.tokenizeAll(documents.map(_ => _.text), this.minCount);
+
+        documents.forEach(({weight}, index) => {
+            const tokens = streams[index];
+            this.countNGrams(this.store, tokens, weight);
+
+            // Тот же поток, но словоформы заменены их классами ("революцией" -> "революц")
+            if (this.classStore) {
+                this.countNGrams(this.classStore, tokens.map(id => this.tokenizer.getClassId(id)), weight);
+            }
+        });
 
-        // Добавляем маркеры начала и конца, если нужно (здесь упрощено)
-        // Для автокомплита часто важно просто скользящее окно.
+        this.fragmentFallback?.train(documents);
+    }
 
+    private countNGrams(store: INGramStore, tokens: TokenID[], weight: number): void {
         for (let i = 0; i < tokens.length; i++) {
             // Сохраняем униграммы, биграммы, триграммы и т.д.
             for (let k = 1; k <= this.n; k++) {
                 if (i - k + 1 < 0) continue;
-                const ngram = tokens.slice(i - k + 1, i + 1);
-                this.store.increment(ngram);
+                store.increment(tokens.slice(i - k + 1, i + 1), weight);
             }
         }
     }
 
+    /**
+     * Сериализует обученную модель в компактный бинарный формат.
+     * Формат: MAGIC | VERSION | order | словарь токенизатора | хранилище N-грамм | [fallback-модель] | [классы].
+     */
+    public save(): ArrayBuffer {
+        const writer = new BinaryWriter();
+        FORMAT_MAGIC.forEach(byte => writer.writeUint8(byte));
+        writer.writeUint8(FORMAT_VERSION);
+        writer.writeVarUint(this.n);
+
+        this.tokenizer.serialize(writer);
+        this.store.serialize(writer);
+
+        writer.writeUint8(this.fragmentFallback ? 1 : 0);
+        this.fragmentFallback?.serialize(writer);
+
+        writer.writeUint8(this.classStore ? 1 : 0);
+        this.classStore?.serialize(writer);
+
+        return writer.toArrayBuffer();
+    }
+
+    /**
+     * Восстанавливает модель, сохраненную через save().
+     * Порядок модели в файле должен совпадать с порядком, заданным в конструкторе.
+     */
+    public load(buffer: ArrayBuffer): void {
+        const reader = new BinaryReader(buffer);
+
+        for (const byte of FORMAT_MAGIC) {
+            if (reader.readUint8() !== byte) {
+                throw new Error("Not a serialized StupidBackoffModel");
+            }
+        }
+
+        const version = reader.readUint8();
+        if (version !== FORMAT_VERSION) {
+            throw new Error(`Unsupported model format version: ${version}`);
+        }
+
+        const order = reader.readVarUint();
+        if (order !== this.n) {
+            throw new Error(`Model order mismatch: expected ${this.n}, got ${order}`);
+        }
+
+        this.tokenizer.deserialize(reader);
+        this.store.deserialize(reader);
+
+        const hasFallback = reader.readUint8() === 1;
+        if (hasFallback !== Boolean(this.fragmentFallback)) {
+            throw new Error("Serialized model and configuration disagree on fragment fallback");
+        }
+        this.fragmentFallback?.deserialize(reader);
+
+        const hasClasses = reader.readUint8() === 1;
+        if (hasClasses !== Boolean(this.classStore)) {
+            throw new Error("Serialized model and configuration disagree on class store");
+        }
+        this.classStore?.deserialize(reader);
+    }
+
+    /**
+     * Экспорт в текстовый формат ARPA (все порядки 1..N).
+     */
+    public toArpa(): string {
+        return writeArpa(this.store, this.tokenizer, this.n, this.alpha);
+    }
+
     /**
      * Рекурсивная функция расчета Score по алгоритму Stupid Backoff.
      */
@@ -86,40 +223,132 @@ export class StupidBackoffModel implements IAutoCompleter {
             return countContext > 0 ? countNgram / countContext : 0;
         }
 
-            // 3. Backoff (Отступление)
-            // Если N-грамма не найдена, откатываемся к (N-1) грамме.
+        // 3. Классовый уровень
+        // Контекст в таком виде не встречался ("после революцией"), но другие его словоформы могли:
+        // Score = S(class(w) | class(h)) * P(w | class(w))
+        if (this.classStore && this.store.getCount(context) === 0) {
+            const classScore = this.getClassScore(candidate, context);
+            if (classScore > 0) return classScore;
+        }
+
+        // 4. Backoff (Отступление)
+        // Если N-грамма не найдена, откатываемся к (N-1) грамме.
         // Score = alpha * Score(word | context_without_first_word)
-        else {
-            // Уменьшаем контекст, убирая первое слово (самое старое)
-            const shortenedContext = context.slice(1);
-            return ALPHA * this.getScore(candidate, shortenedContext);
+        // Уменьшаем контекст, убирая первое слово (самое старое)
+        const shortenedContext = context.slice(1);
+        return this.alpha * this.getScore(candidate, shortenedContext);
+    }
+
+    /**
+     * Score по N-граммам классов, распределенный между словоформами класса пропорционально их частоте.
+     */
+    private getClassScore(candidate: TokenID, context: TokenID[]): number {
+        if (!this.classStore) return 0;
+
+        const classContext = context.map(id => this.tokenizer.getClassId(id));
+        const classCandidate = this.tokenizer.getClassId(candidate);
+
+        const classCount = this.classStore.getCount([...classContext, classCandidate]);
+        const classContextCount = this.classStore.getCount(classContext);
+        const classTotal = this.classStore.getCount([classCandidate]);
+        if (classCount === 0 || classContextCount === 0 || classTotal === 0) return 0;
+
+        const surfaceShare = this.store.getCount([candidate]) / classTotal;
+        return (classCount / classContextCount) * surfaceShare;
+    }
+
+    /**
+     * Кандидаты по контексту из основ: самые частые словоформы классов,
+     * встречавшихся после классов контекста.
+     */
+    private getClassCandidates(context: TokenID[]): TokenID[] {
+        if (!this.classStore || context.length === 0) return [];
+
+        const classContext = context.map(id => this.tokenizer.getClassId(id));
+        const result: TokenID[] = [];
+
+        for (const classId of this.classStore.getCandidates(classContext)) {
+            const forms = this.tokenizer.getClassMembers(classId)
+                .map(id => ({id, count: this.store.getCount([id])}))
+                .filter(_ => _.count > 0)
+                .sort((a, b) => b.count - a.count)
+                .slice(0, SURFACE_FORMS_PER_CLASS);
+            forms.forEach(_ => result.push(_.id));
         }
+
+        return result;
     }
 
     /**
      * Основной метод предсказания.
+     * Если пользователь еще не дописал последнее слово ("рево"), дополняет именно его,
+     * используя предыдущие слова как контекст. Иначе предсказывает следующее слово.
+     * Регистр подсказок восстанавливается по корпусу, началу предложения и регистру фрагмента.
      */
     public predict(inputText: string, topK: number = 5): Suggestion[] {
-        // 1. Токенизация входной строки
-        const tokens = this.tokenizer.tokenize(inputText);
+        // 1. Отделяем недописанное слово от завершенной части текста
+        const {head, fragment} = splitTrailingFragment(inputText);
+
+        // Слово могло быть набрано не в той раскладке вместе с клавишами-знаками (";bpym").
+        // Проверяется до основного контекста: tokenizeContext помнит временные ID только последнего вызова
+        const layoutFix = this.detectWrongLayout(inputText);
 
         // 2. Определение контекста
         // Нам нужны последние (N-1) слов, чтобы предсказать N-е слово.
         // Если слов мало, берем сколько есть.
-        const contextSize = this.n - 1;
-        let context = tokens.slice(-contextSize);
+        const context = this.getContext(head);
 
-        // Убираем символ конца предложения, если он есть
-        if (context.length > 0 && context[context.length - 1] === this.tokenizer.EOS_ID) {
-            context.pop();
-        }
+        const sentenceStart = context.length === 0 || context[context.length - 1] === this.tokenizer.BOS_ID;
+        const suggestions = this.suggest(head, fragment, context, topK, layoutFix === null)
+            .flatMap(suggestion => {
+                // Предсказан класс ("<YEAR>") — подставляем конкретные значения, регистр у них свой
+                if (isClassToken(suggestion.word)) {
+                    return expandClassSuggestion(suggestion, inputText, fragment);
+                }
+
+                const id = this.tokenizer.getId(suggestion.word);
+                const surface = id === this.tokenizer.UNK_ID ? suggestion.word : this.tokenizer.getSurfaceForm(id);
+                return [{...suggestion, word: recase(surface, {sentenceStart, fragment})}];
+            });
+
+        const sameWord = (suggestion: Suggestion) => layoutFix !== null &&
+            suggestion.word.toLocaleLowerCase() === layoutFix.word.toLocaleLowerCase();
+        return (layoutFix ? [layoutFix, ...suggestions.filter(_ => !sameWord(_))] : suggestions)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
 
-        // Если контекст пуст (пользователь еще ничего не ввел),
-        // логично вернуть самые популярные униграммы, но для простоты вернем пустой список
-        // или можно реализовать fallback на топ популярных слов.
-        if (context.length === 0 && tokens.length > 0) {
-            // Краевой случай, если введено слов больше чем N
-            context = tokens.slice(-(this.n - 1));
+    /**
+     * @param allowFallback можно ли дописывать фрагмент посимвольно: не нужно, если он уже
+     * объяснен набором не в той раскладке ("ghbdtn" -> "Привет", а не "ghbdtnа")
+     */
+    private suggest(head: string, fragment: string, context: TokenID[], topK: number, allowFallback: boolean): Suggestion[] {
+        if (fragment) {
+            const completions = [
+                ...this.completeFragment(fragment, context, topK),
+                ...this.punctuationAfterFragment(fragment, context, topK),
+                // Классы, для которых есть значение с таким началом ("19" -> "1917", "http" -> URL).
+                // Сами значения подставляет predict
+                ...this.rank(this.getClassTokenIds(), context, topK)
+                    .filter(_ => generateClassValues(_.word, head + fragment, fragment).length > 0),
+            ];
+
+            // Исправления опечаток (replace) всегда ниже точных дополнений:
+            // Tab не должен менять набранное, если его можно просто продолжить
+            const exact = completions.filter(_ => !_.replace);
+            const floor = Math.min(...exact.map(_ => _.score)) * FUZZY_PENALTY;
+            const ranked = [
+                ...exact,
+                ...completions.filter(_ => _.replace).map(_ => ({..._, score: Math.min(_.score, floor)})),
+            ].sort((a, b) => b.score - a.score).slice(0, topK);
+
+            // Словарь не знает ни одного слова с таким началом — пробуем дописать слово посимвольно.
+            // Известный префикс ("не") или слово целиком посимвольно не дописываются
+            const unknownPrefix = this.tokenizer.getByPrefix(this.tokenizer.normalize(fragment)).length === 0;
+            if (allowFallback && unknownPrefix && ranked.length === 0 && this.fragmentFallback) {
+                return this.fragmentFallback.complete(fragment, head, topK);
+            }
+            return ranked;
         }
 
         // 3. Генерация кандидатов
@@ -130,6 +359,11 @@ export class StupidBackoffModel implements IAutoCompleter {
 
         const candidates = new Set<TokenID>();
 
+        // Полный контекст в таком виде не встречался — берем кандидатов по основам
+        if (this.store.getCandidates(context).size === 0) {
+            this.getClassCandidates(context).forEach(_ => candidates.add(_));
+        }
+
         // Стратегия поиска кандидатов ("Backoff aware candidate generation"):
         // Пытаемся найти кандидатов для самого длинного контекста.
         // Если их нет (или мало), можно "отступить" по контексту, чтобы найти больше вариантов.
@@ -149,19 +383,160 @@ export class StupidBackoffModel implements IAutoCompleter {
 
         // Если совсем ничего не нашли (редкий случай для большого корпуса), можно добавить топ униграмм.
 
-        // 4. Оценка (Scoring) каждого кандидата
+        // 4. Оценка (Scoring) каждого кандидата и выдача Top-K
+        return this.rank(candidates, context, topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        const id = this.tokenizer.getId(this.tokenizer.normalize(word));
+        return this.getScore(id, this.getContext(context));
+    }
+
+    public getVocabulary(): Iterable<string> {
+        return this.tokenizer.getWords();
+    }
+
+    /**
+     * Дополнение недописанного слова.
+     * Кандидаты — слова словаря с данным префиксом (через префиксный индекс токенизатора),
+     * ранжированные по Stupid Backoff в контексте предыдущих слов.
+     * Если у префикса нет ни одного точного дополнения и он сам не слово словаря, добавляются
+     * слова с опечаткой в префиксе ("ркволю" -> "революция"): их score штрафуется за каждую
+     * единицу расстояния. Правильно набранное слово ("Москва") не исправляется.
+     */
+    private completeFragment(fragment: string, context: TokenID[], topK: number): Suggestion[] {
+        const prefix = this.tokenizer.normalize(fragment);
+        const matches = this.tokenizer.getByPrefix(prefix);
+
+        // Само введенное слово не предлагаем: дописывать в нем нечего
+        const candidates = matches.filter(id => this.tokenizer.getWord(id) !== prefix);
+
+        const completions = this.rank(candidates, context, topK);
+        if (
+            matches.length > 0 ||
+            this.maxEditDistance <= 0 ||
+            Array.from(prefix).length < MIN_FUZZY_LENGTH
+        ) {
+            return completions;
+        }
+
+        const corrections: Suggestion[] = [];
+        for (const {id, distance} of findFuzzyMatches(this.tokenizer, prefix, this.maxEditDistance, true)) {
+            // Нулевое расстояние — точное совпадение префикса, такие слова уже учтены выше
+            if (distance === 0) continue;
+
+            corrections.push({
+                word: this.tokenizer.getWord(id),
+                score: this.getScore(id, context) * Math.pow(FUZZY_PENALTY, distance),
+                replace: true,
+            });
+        }
+
+        return [...completions, ...corrections]
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    /**
+     * Если фрагмент уже является словом словаря ("город"), к нему можно сразу
+     * приписать знак препинания. Score знака умножается на score самого слова,
+     * чтобы его можно было сравнивать с дополнениями фрагмента.
+     */
+    private punctuationAfterFragment(fragment: string, context: TokenID[], topK: number): Suggestion[] {
+        const id = this.tokenizer.getId(this.tokenizer.normalize(fragment));
+        if (id === this.tokenizer.UNK_ID) return [];
+
+        const wordScore = this.getScore(id, context);
+        const extended = [...context, id].slice(Math.max(0, context.length + 1 - (this.n - 1)));
+        const candidates = new Set<TokenID>();
+        for (let i = 0; i < extended.length; i++) {
+            this.store.getCandidates(extended.slice(i)).forEach(_ => candidates.add(_));
+        }
+
+        return this.rank([...candidates].filter(_ => this.tokenizer.isPunctuation(_)), extended, topK)
+            .map(suggestion => ({...suggestion, score: suggestion.score * wordScore}));
+    }
+
+    /**
+     * Проверяет, не набрано ли последнее слово в другой раскладке.
+     * Слово берется вместе с клавишами, дающими буквы в другой раскладке (splitLayoutFragment).
+     * Сравнивает лучший score слов, начинающихся с исходного фрагмента и с его
+     * конвертированной версии; если конвертированная вероятнее в LAYOUT_SWITCH_RATIO раз —
+     * возвращает лучшее слово для нее как замену фрагмента.
+     */
+    private detectWrongLayout(inputText: string): Suggestion | null {
+        const {head, fragment} = splitLayoutFragment(inputText);
+        if (Array.from(fragment).length < MIN_LAYOUT_LENGTH) return null;
+
+        const context = this.getContext(head);
+
+        const original = this.bestByPrefix(this.tokenizer.normalize(fragment), context);
+
+        let best: Suggestion | null = null;
+        for (const {text} of getLayoutConversions(fragment)) {
+            const converted = this.bestByPrefix(this.tokenizer.normalize(text), context);
+            if (!converted || converted.score <= LAYOUT_SWITCH_RATIO * (original?.score ?? 0)) continue;
+
+            if (!best || converted.score > best.score) {
+                // Регистр — по своему контексту и конвертированному фрагменту ("Ghbdtn" -> "Привет")
+                const sentenceStart = context.length === 0 || context[context.length - 1] === this.tokenizer.BOS_ID;
+                const surface = this.tokenizer.getSurfaceForm(this.tokenizer.getId(converted.word));
+                best = {...converted, word: recase(surface, {sentenceStart, fragment: text}), replace: true, replaces: fragment};
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Самое вероятное в данном контексте слово с данным префиксом (включая само слово).
+     */
+    private bestByPrefix(prefix: string, context: TokenID[]): Suggestion | null {
+        return this.rank(this.tokenizer.getByPrefix(prefix), context, 1)[0] ?? null;
+    }
+
+    /**
+     * ID токенов классов, встречавшихся при обучении.
+     */
+    private getClassTokenIds(): TokenID[] {
+        return TOKEN_CLASSES
+            .map(_ => this.tokenizer.getId(_.token))
+            .filter(id => id !== this.tokenizer.UNK_ID);
+    }
+
+    private getContext(text: string): TokenID[] {
+        const tokens = this.tokenizer.tokenizeContext(text);
+        return tokens.slice(Math.max(0, tokens.length - (this.n - 1)));
+    }
+
+    private rank(candidates: Iterable<TokenID>, context: TokenID[], topK: number): Suggestion[] {
+        // Знак препинания не может начинать предложение или идти сразу за другим знаком
+        const last = context[context.length - 1];
+        const punctuationAllowed = last !== undefined && last !== this.tokenizer.BOS_ID && !this.tokenizer.isPunctuation(last);
+
         const results: Suggestion[] = [];
         for (const candidateId of candidates) {
+            // Служебные токены пользователю не предлагаем
+            if (this.isSpecial(candidateId)) continue;
+
+            const attach = this.tokenizer.isPunctuation(candidateId);
+            if (attach && !punctuationAllowed) continue;
+
             const score = this.getScore(candidateId, context);
             results.push({
                 word: this.tokenizer.getWord(candidateId),
-                score: score
+                score: score,
+                ...(attach ? {attach} : {}),
             });
         }
 
-        // 5. Сортировка и выдача Top-K
+        // Сортировка и выдача Top-K
         return results
             .sort((a, b) => b.score - a.score)
             .slice(0, topK);
     }
+
+    private isSpecial(id: TokenID): boolean {
+        return id === this.tokenizer.BOS_ID || id === this.tokenizer.EOS_ID || id === this.tokenizer.UNK_ID;
+    }
 }
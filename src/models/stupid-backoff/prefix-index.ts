@@ -0,0 +1,61 @@
+// ==========================================
+// Prefix Index (Trie over Vocabulary)
+// ==========================================
+
+import type {TokenID} from "./tokenizer.ts";
+
+interface TrieNode {
+    children: Map<string, TrieNode>;
+    // ID слова, которое заканчивается в этом узле (если есть)
+    id: TokenID | null;
+}
+
+const createNode = (): TrieNode => ({children: new Map(), id: null});
+
+/**
+ * Префиксное дерево над словарем токенизатора.
+ * Позволяет за O(|prefix| + |результат|) найти все слова, начинающиеся с префикса,
+ * не перебирая словарь целиком на каждое нажатие клавиши.
+ */
+export class PrefixIndex {
+    private root: TrieNode = createNode();
+
+    public add(word: string, id: TokenID): void {
+        let node = this.root;
+        for (const char of word) {
+            let next = node.children.get(char);
+            if (!next) {
+                next = createNode();
+                node.children.set(char, next);
+            }
+            node = next;
+        }
+        node.id = id;
+    }
+
+    /**
+     * Возвращает ID всех слов с данным префиксом (включая само слово, если оно есть в словаре).
+     */
+    public search(prefix: string, limit: number = Infinity): TokenID[] {
+        let node: TrieNode | undefined = this.root;
+        for (const char of prefix) {
+            node = node.children.get(char);
+            if (!node) return [];
+        }
+
+        // Обход в глубину по поддереву префикса
+        const result: TokenID[] = [];
+        const stack: TrieNode[] = [node];
+        while (stack.length > 0 && result.length < limit) {
+            const current = stack.pop()!;
+            if (current.id !== null) result.push(current.id);
+            current.children.forEach(child => stack.push(child));
+        }
+
+        return result;
+    }
+
+    public clear(): void {
+        this.root = createNode();
+    }
+}
@@ -3,14 +3,16 @@
 // ==========================================
 
 import type {TokenID} from "./tokenizer.ts";
+import type {BinaryReader, BinaryWriter, ISerializable} from "../serialization/binary.ts";
 
 export type NGramKey = string; // Формат "id1,id2"
 
-export interface INGramStore {
-    increment(ngram: TokenID[]): void;
+export interface INGramStore extends ISerializable {
+    increment(ngram: TokenID[], weight?: number): void;
     getCount(ngram: TokenID[]): number;
     getTotalTokens(): number;
     getCandidates(context: TokenID[]): Set<TokenID>;
+    entries(): IterableIterator<[TokenID[], number]>;
 }
 
 /**
@@ -20,23 +22,26 @@ export interface INGramStore {
  */
 export class NGramStore implements INGramStore{
     // Основная таблица частот: "id1,id2" -> count
-    private counts: Map<NGramKey, number> = new Map();
+    protected counts: Map<NGramKey, number> = new Map();
 
     // Оптимизация для автокомплита: Context -> Set of Candidates
     // Позволяет не перебирать весь словарь при предсказании.
     // Key: "id1,id2" (контекст), Value: Set([id3, id4...]) (возможные продолжения)
-    private contextMap: Map<NGramKey, Set<TokenID>> = new Map();
+    protected contextMap: Map<NGramKey, Set<TokenID>> = new Map();
 
     // Общее количество токенов (для расчета частоты униграмм)
-    private totalTokens: number = 0;
+    protected totalTokens: number = 0;
 
-    public increment(ngram: TokenID[]): void {
+    /**
+     * weight — вес документа: счетчики взвешенных корпусов дробные.
+     */
+    public increment(ngram: TokenID[], weight: number = 1): void {
         const key = this.toKey(ngram);
         const currentCount = this.counts.get(key) || 0;
-        this.counts.set(key, currentCount + 1);
+        this.counts.set(key, currentCount + weight);
 
         if (ngram.length === 1) {
-            this.totalTokens++;
+            this.totalTokens += weight;
         }
 
         // Если это N-грамма порядка > 1, регистрируем связь Context -> NextWord
@@ -69,11 +74,110 @@ export class NGramStore implements INGramStore{
         return this.contextMap.get(this.toKey(context)) || new Set();
     }
 
+    /**
+     * Обходит все сохраненные N-граммы (всех порядков) вместе с их счетчиками.
+     */
+    public *entries(): IterableIterator<[TokenID[], number]> {
+        for (const [key, count] of this.counts) {
+            yield [this.fromKey(key), count];
+        }
+    }
+
+    /**
+     * Формат секции:
+     * totalTokens | N | N x (длина, id..., count) | M | M x (длина, id..., K, K x delta-id)
+     * Кандидаты контекста сортируются и пишутся разностями — так они почти всегда влезают в 1 байт.
+     * Счетчики — см. writeCount.
+     */
+    public serialize(writer: BinaryWriter): void {
+        this.writeCount(writer, this.totalTokens);
+
+        writer.writeVarUint(this.counts.size);
+        for (const [key, count] of this.counts) {
+            this.writeIds(writer, this.fromKey(key));
+            this.writeCount(writer, count);
+        }
+
+        writer.writeVarUint(this.contextMap.size);
+        for (const [key, candidates] of this.contextMap) {
+            this.writeIds(writer, this.fromKey(key));
+
+            const sorted = Array.from(candidates).sort((a, b) => a - b);
+            writer.writeVarUint(sorted.length);
+            let previous = 0;
+            for (const id of sorted) {
+                writer.writeVarUint(id - previous);
+                previous = id;
+            }
+        }
+    }
+
+    public deserialize(reader: BinaryReader): void {
+        this.counts = new Map();
+        this.contextMap = new Map();
+        this.totalTokens = this.readCount(reader);
+
+        const countsSize = reader.readVarUint();
+        for (let i = 0; i < countsSize; i++) {
+            const key = this.toKey(this.readIds(reader));
+            this.counts.set(key, this.readCount(reader));
+        }
+
+        const contextsSize = reader.readVarUint();
+        for (let i = 0; i < contextsSize; i++) {
+            const key = this.toKey(this.readIds(reader));
+            const size = reader.readVarUint();
+            const candidates = new Set<TokenID>();
+            let previous = 0;
+            for (let j = 0; j < size; j++) {
+                previous += reader.readVarUint();
+                candidates.add(previous);
+            }
+            this.contextMap.set(key, candidates);
+        }
+    }
+
+    /**
+     * Целый счетчик c пишется как varint 2c (четный), дробный (взвешенный корпус) — как 1 и float64.
+     * Так невзвешенная модель не становится больше.
+     */
+    private writeCount(writer: BinaryWriter, count: number): void {
+        if (Number.isInteger(count) && Number.isSafeInteger(count * 2)) {
+            writer.writeVarUint(count * 2);
+        } else {
+            writer.writeVarUint(1);
+            writer.writeFloat64(count);
+        }
+    }
+
+    private readCount(reader: BinaryReader): number {
+        const header = reader.readVarUint();
+        return header % 2 === 0 ? header / 2 : reader.readFloat64();
+    }
+
+    private writeIds(writer: BinaryWriter, ids: TokenID[]): void {
+        writer.writeVarUint(ids.length);
+        ids.forEach(id => writer.writeVarUint(id));
+    }
+
+    private readIds(reader: BinaryReader): TokenID[] {
+        const length = reader.readVarUint();
+        const ids: TokenID[] = [];
+        for (let i = 0; i < length; i++) {
+            ids.push(reader.readVarUint());
+        }
+        return ids;
+    }
+
+    protected fromKey(key: NGramKey): TokenID[] {
+        return key === "" ? [] : key.split(",").map(Number);
+    }
+
     /**
      * Превращает массив ID в строковый ключ для Map.
      * Самый быстрый способ в JS для составных ключей.
      */
-    private toKey(ids: TokenID[]): string {
+    protected toKey(ids: TokenID[]): string {
         return ids.join(",");
     }
 }
\ No newline at end of file
@@ -2,12 +2,35 @@
 // 2. Tokenizer (Vocabulary Manager)
 // ==========================================
 
+import type {BinaryReader, BinaryWriter, ISerializable} from "../serialization/binary.ts";
+import {PrefixIndex} from "./prefix-index.ts";
+import type {IStemmer} from "../morphology/russian-stemmer.ts";
+import {
+    isClassToken,
+    nfcNormalizer,
+    type PipelineToken,
+    TOKEN_CLASSES,
+    type TokenClass,
+    TokenizerPipeline,
+    yoNormalizer
+} from "../tokenizer/index.ts";
+
 export type TokenID = number;
 
-export interface ITokenizer {
+export interface ITokenizer extends ISerializable {
     getId(word: string): TokenID;
     getWord(id: TokenID): string;
-    tokenize(text: string): TokenID[];
+    tokenize(text: string, minCount?: number): TokenID[];
+    tokenizeAll(texts: string[], minCount?: number): TokenID[][];
+    tokenizeContext(text: string): TokenID[];
+    normalize(text: string): string;
+    getByPrefix(prefix: string): TokenID[];
+    getVocabSize(): number;
+    getWords(): string[];
+    getClassId(id: TokenID): TokenID;
+    getClassMembers(classId: TokenID): TokenID[];
+    getSurfaceForm(id: TokenID): string;
+    isPunctuation(id: TokenID): boolean;
     EOS_ID: TokenID;
     BOS_ID: TokenID;
     UNK_ID: TokenID;
@@ -29,13 +52,39 @@ export interface ITokenizer {
 interface TokenizerConfig  {
     normalizeYo: boolean; // Превращать ли 'ё' в 'е' (стандарт для поиска/автокомплита)
     minWordLength: number; // Игнорировать слишком короткие мусорные токены
+    stemmer: IStemmer | null; // Морфологический класс слова (основа); null — каждое слово само себе класс
+    punctuation: string; // Знаки препинания, которые становятся токенами словаря; остальные отбрасываются
+    tokenClasses: TokenClass[]; // Числа, даты, URL и e-mail попадают в словарь как токены классов ("<YEAR>")
+    locale: string; // Локаль приведения к нижнему регистру (для турецкого "I" -> "ı", а не "i")
 }
 
+const PUNCTUATION_TOKEN = /^[^\p{L}\p{N}]+$/u;
+
 export class AdvancedTokenizer implements ITokenizer {
     // Двунаправленное отображение (Bi-directional mapping)
     // Используем массив для idToWord для O(1) доступа и меньшего оверхеда памяти по сравнению с Map
     private wordToId: Map<string, TokenID> = new Map();
     private idToWord: string[] = [];
+    // Индекс для дополнения недописанного слова
+    private prefixIndex: PrefixIndex = new PrefixIndex();
+
+    // Классы слов (основы): "революции", "революцией" -> один класс "революц".
+    // ID классов — отдельное пространство, специальные токены образуют собственные классы.
+    private classToId: Map<string, TokenID> = new Map();
+    private classOfWord: TokenID[] = [];
+    private classMembers: TokenID[][] = [];
+
+    // Статистика регистра: сколько раз слово встретилось в нижнем регистре
+    // и в каждом другом написании ("Москва", "МГУ"). Начала предложений не учитываются:
+    // там заглавная буква ничего не говорит о слове.
+    private lowercaseCounts: number[] = [];
+    private casedForms: Map<TokenID, Map<string, number>> = new Map();
+
+    // Незнакомые слова последнего контекста (tokenizeContext), чья основа есть в словаре.
+    // Получают временные ID за концом словаря, чтобы модель могла отступить на уровень основ
+    // ("после революцией"). В словарь они не попадают.
+    private contextWords: string[] = [];
+    private contextClasses: TokenID[] = [];
 
     // Специальные токены
     public static readonly UNK = "<UNK>"; // Unknown word
@@ -48,14 +97,30 @@ export class AdvancedTokenizer implements ITokenizer {
     public readonly EOS_ID: TokenID;
 
     private config: TokenizerConfig;
+    private pipeline: TokenizerPipeline;
 
     constructor(config: Partial<TokenizerConfig> = {}) {
         this.config = {
             normalizeYo: true,
             minWordLength: 1,
+            stemmer: null,
+            punctuation: ',.?!;:',
+            tokenClasses: TOKEN_CLASSES,
+            locale: 'ru',
             ...config,
         };
 
+        // Знаки препинания — обычные токены: модель учится, что перед "который" обычно стоит запятая.
+        // Терминаторы при этом еще и закрывают предложение: "спит . </S> <S>"
+        this.pipeline = new TokenizerPipeline({
+            normalizers: this.config.normalizeYo ? [nfcNormalizer, yoNormalizer] : [nfcNormalizer],
+            minWordLength: this.config.minWordLength,
+            keepPunctuation: this.config.punctuation !== '',
+            tokenClasses: this.config.tokenClasses,
+            locale: this.config.locale,
+            sentenceMarkers: true,
+        });
+
         // Инициализация специальных токенов (гарантируем ID 0, 1, 2)
         this.UNK_ID = this.registerToken(AdvancedTokenizer.UNK);
         this.BOS_ID = this.registerToken(AdvancedTokenizer.BOS);
@@ -66,16 +131,81 @@ export class AdvancedTokenizer implements ITokenizer {
      * Добавляет слово в словарь, если его там нет.
      * Возвращает ID слова.
      */
-    private registerToken(word: string): TokenID {
+    public registerToken(word: string): TokenID {
         if (this.wordToId.has(word)) {
             return this.wordToId.get(word)!;
         }
         const id = this.idToWord.length; // Следующий доступный индекс
         this.wordToId.set(word, id);
         this.idToWord.push(word);
+        this.prefixIndex.add(word, id);
+        this.registerClass(word, id);
         return id;
     }
 
+    private registerClass(word: string, id: TokenID): void {
+        const className = this.config.stemmer ? this.config.stemmer.stem(word) : word;
+
+        let classId = this.classToId.get(className);
+        if (classId === undefined) {
+            classId = this.classMembers.length;
+            this.classToId.set(className, classId);
+            this.classMembers.push([]);
+        }
+
+        this.classOfWord[id] = classId;
+        this.classMembers[classId].push(id);
+    }
+
+    /**
+     * Морфологический класс слова (ID основы).
+     */
+    public getClassId(id: TokenID): TokenID {
+        return this.classOfWord[id] ?? this.contextClasses[id - this.idToWord.length] ?? this.classOfWord[this.UNK_ID];
+    }
+
+    /**
+     * Все словоформы класса.
+     */
+    public getClassMembers(classId: TokenID): TokenID[] {
+        return this.classMembers[classId] ?? [];
+    }
+
+    /**
+     * Самое частое написание слова внутри предложения.
+     * При равенстве (и для слов, встречавшихся только в начале предложения) — нижний регистр.
+     */
+    public getSurfaceForm(id: TokenID): string {
+        const word = this.getWord(id);
+        const forms = this.casedForms.get(id);
+        if (!forms) return word;
+
+        let best = word;
+        let bestCount = this.lowercaseCounts[id] ?? 0;
+        for (const [form, count] of forms) {
+            if (count > bestCount) {
+                best = form;
+                bestCount = count;
+            }
+        }
+        return best;
+    }
+
+    private countCasing(id: TokenID, raw: string): void {
+        const form = raw.replace(/\s+/g, '');
+        if (form === this.idToWord[id]) {
+            this.lowercaseCounts[id] = (this.lowercaseCounts[id] ?? 0) + 1;
+            return;
+        }
+
+        let forms = this.casedForms.get(id);
+        if (!forms) {
+            forms = new Map();
+            this.casedForms.set(id, forms);
+        }
+        forms.set(form, (forms.get(form) ?? 0) + 1);
+    }
+
     /**
      * Получить ID по слову (или UNK_ID)
      */
@@ -87,7 +217,32 @@ export class AdvancedTokenizer implements ITokenizer {
      * Получить слово по ID
      */
     public getWord(id: TokenID): string {
-        return this.idToWord[id] ?? AdvancedTokenizer.UNK;
+        return this.idToWord[id] ?? this.contextWords[id - this.idToWord.length] ?? AdvancedTokenizer.UNK;
+    }
+
+    /**
+     * Все слова словаря, кроме служебных токенов, знаков препинания и токенов классов.
+     */
+    public getWords(): string[] {
+        return this.idToWord.filter((word, id) =>
+            id !== this.UNK_ID && id !== this.BOS_ID && id !== this.EOS_ID &&
+            !this.isPunctuation(id) && !isClassToken(word));
+    }
+
+    /**
+     * Токен — знак препинания (",", "."), а не слово.
+     */
+    public isPunctuation(id: TokenID): boolean {
+        const word = this.idToWord[id];
+        return word !== undefined && PUNCTUATION_TOKEN.test(word);
+    }
+
+    /**
+     * Все слова словаря, начинающиеся с префикса.
+     * Префикс должен быть нормализован так же, как текст при токенизации (см. normalize).
+     */
+    public getByPrefix(prefix: string): TokenID[] {
+        return this.prefixIndex.search(prefix);
     }
 
     /**
@@ -95,84 +250,188 @@ export class AdvancedTokenizer implements ITokenizer {
      * Возвращает плоский список ID токенов.
      * * Логика:
      * 1. Вставляет <S> в начале.
-     * 2. Разбивает текст на предложения по знакам препинания.
-     * 3. Вставляет </S> <S> между предложениями.
+     * 2. Разбивает текст на предложения по знакам препинания (с учетом сокращений).
+     * 3. Вставляет </S> <S> между предложениями (после самого знака: "спит . </S> <S>").
      * 4. Заканчивает </S>.
+     * Знаки препинания из config.punctuation остаются токенами, остальные отбрасываются.
      */
-    public tokenize(text: string): TokenID[] {
-        const result: TokenID[] = [];
+    public tokenize(text: string, minCount: number = 1): TokenID[] {
+        return this.tokenizeAll([text], minCount)[0];
+    }
 
-        // Предварительная очистка и нормализация
-        const normalizedText = this.preprocessText(text);
+    /**
+     * Токенизация нескольких документов, каждый со своими границами предложений.
+     * Порог minCount считается по всем документам вместе.
+     */
+    public tokenizeAll(texts: string[], minCount: number = 1): TokenID[][] {
+        if (minCount <= 1) {
+            return texts.map(text => this.tokenizeStream(text, true, (word) => this.registerToken(word), true));
+        }
 
-        // Разбиваем на предложения (грубая эвристика по . ! ?)
-        // Регулярка ищет границы предложений, не удаляя разделители полностью,
-        // но в данном случае нам проще сплитить и обрабатывать чанки.
-        // Для автокомплита важно сохранять поток, но сбрасывать контекст на точках.
+        // Редкие токены заменяются на <UNK>: модель получает статистику "незнакомого слова" в контексте.
+        // Уже известные слова остаются — они прошли порог раньше
+        const counts = new Map<string, number>();
+        for (const text of texts) {
+            for (const token of this.streamTokens(text, true)) {
+                counts.set(token.text, (counts.get(token.text) ?? 0) + 1);
+            }
+        }
 
-        // Регулярное выражение для поиска слов на Русском, Английском + цифры + дефисы внутри слов
-        // \p{L} - любая буква (Unicode Letter)
-        // \p{N} - любая цифра
-        // Логика: (Буква + (может быть дефис) + Буква) ИЛИ (просто Буквы) ИЛИ (Цифры)
-        // Флаг 'u' обязателен для Unicode Property Escapes
-        const tokenRegex = /((?:\p{L}[\p{L}-]*\p{L})|\p{L}+|\p{N}+)|([.?!;]+)/gu;
+        const lookup = (word: string) => this.wordToId.has(word) || (counts.get(word) ?? 0) >= minCount
+            ? this.registerToken(word)
+            : this.UNK_ID;
+        return texts.map(text => this.tokenizeStream(text, true, lookup, true));
+    }
 
-        let match;
-        let isSentenceStart = true;
+    /**
+     * Токенизация контекста для предсказания.
+     * В отличие от tokenize, последнее предложение не закрывается маркером </S>:
+     * пользователь его еще пишет. Если текст закончился на границе предложения,
+     * результат заканчивается на <S>, то есть модель предскажет начало нового.
+     * Словарь не меняется: недописанные и незнакомые слова становятся <UNK>
+     * (или временными ID, если известна их основа, см. contextWords).
+     */
+    public tokenizeContext(text: string): TokenID[] {
+        this.contextWords = [];
+        this.contextClasses = [];
+        return this.tokenizeStream(text, false, (word) => this.getContextId(word), false);
+    }
 
-        // Добавляем маркер начала самого первого предложения
-        result.push(this.BOS_ID);
+    private getContextId(word: string): TokenID {
+        const id = this.wordToId.get(word);
+        if (id !== undefined) return id;
 
-        while ((match = tokenRegex.exec(normalizedText)) !== null) {
-            const word = match[1]; // Захваченное слово
-            const punctuation = match[2]; // Захваченный знак препинания
+        const classId = this.config.stemmer ? this.classToId.get(this.config.stemmer.stem(word)) : undefined;
+        if (classId === undefined) return this.UNK_ID;
 
-            if (word) {
-                // Если слово слишком короткое (и это не цифра), пропускаем?
-                // Обычно для n-gram лучше оставлять даже 1-буквенные (союзы "и", "в").
-                if (word.length < this.config.minWordLength) continue;
+        this.contextWords.push(word);
+        this.contextClasses.push(classId);
+        return this.idToWord.length + this.contextWords.length - 1;
+    }
 
-                result.push(this.registerToken(word));
-                isSentenceStart = false;
-            }
-            else if (punctuation) {
-                // Если встретили знак конца предложения и мы не в начале (чтобы не дублировать старт)
-                if (!isSentenceStart) {
-                    result.push(this.EOS_ID);
-                    result.push(this.BOS_ID); // Сразу начинаем контекст нового
-                    isSentenceStart = true;
+    /**
+     * lookup: ID для нормализованного токена (регистрация, поиск или <UNK>).
+     * countCasing: учитывать ли написание слов в статистике регистра (только для обучающего текста).
+     */
+    private tokenizeStream(
+        text: string,
+        closeSentence: boolean,
+        lookup: (word: string) => TokenID,
+        countCasing: boolean
+    ): TokenID[] {
+        // Сокращения ("т.е.", "г.") попадают в словарь целиком и не обрывают предложение
+        return this.streamTokens(text, closeSentence).map((token, index, tokens) => {
+            switch (token.kind) {
+                case 'bos':
+                    return this.BOS_ID;
+                case 'eos':
+                    return this.EOS_ID;
+                case 'terminator':
+                case 'punctuation':
+                case 'class':
+                    // Регистр у знаков и значений классов не учитывается: "<URL>" — не слово
+                    return lookup(token.text);
+                default: {
+                    const id = lookup(token.text);
+                    if (countCasing && id !== this.UNK_ID && tokens[index - 1]?.kind !== 'bos') {
+                        this.countCasing(id, token.raw);
+                    }
+                    return id;
                 }
             }
+        });
+    }
+
+    /**
+     * Токены конвейера без знаков препинания, не входящих в config.punctuation.
+     */
+    private streamTokens(text: string, closeSentence: boolean): PipelineToken[] {
+        return this.pipeline.tokenize(text, closeSentence).filter((token) =>
+            (token.kind !== 'terminator' && token.kind !== 'punctuation') || this.config.punctuation.includes(token.text));
+    }
+
+    /**
+     * Нормализация пользовательского ввода (например, недописанного слова)
+     * к форме, в которой слова хранятся в словаре.
+     */
+    public normalize(text: string): string {
+        return this.pipeline.normalize(text);
+    }
+
+    /**
+     * Записывает словарь: количество слов и сами слова в порядке их ID.
+     * Специальные токены тоже пишутся, чтобы при загрузке проверить совместимость.
+     * Следом — статистика регистра: счетчик нижнего регистра для каждого слова
+     * и список остальных написаний (ID | число написаний | (написание | счетчик)*).
+     */
+    public serialize(writer: BinaryWriter): void {
+        writer.writeVarUint(this.idToWord.length);
+        for (const word of this.idToWord) {
+            writer.writeString(word);
         }
 
-        // Если в конце текста не было знака препинания, закрываем последнее предложение
-        if (result[result.length - 1] === this.BOS_ID) {
-            // Если текст был пустой или кончился на BOS, убираем лишний BOS
-            result.pop();
-        } else if (result[result.length - 1] !== this.EOS_ID) {
-            result.push(this.EOS_ID);
+        for (let id = 0; id < this.idToWord.length; id++) {
+            writer.writeVarUint(this.lowercaseCounts[id] ?? 0);
         }
 
-        return result;
+        writer.writeVarUint(this.casedForms.size);
+        for (const [id, forms] of this.casedForms) {
+            writer.writeVarUint(id);
+            writer.writeVarUint(forms.size);
+            for (const [form, count] of forms) {
+                writer.writeString(form);
+                writer.writeVarUint(count);
+            }
+        }
     }
 
     /**
-     * Глубокая очистка строки
+     * Полностью заменяет текущий словарь словарем из потока.
      */
-    private preprocessText(text: string): string {
-        // 1. Unicode Normalization (NFC).
-        // Собирает составные символы (й) в один кодпоинт.
-        let clean = text.normalize('NFC');
+    public deserialize(reader: BinaryReader): void {
+        const size = reader.readVarUint();
+        const words: string[] = [];
+        for (let i = 0; i < size; i++) {
+            words.push(reader.readString());
+        }
 
-        // 2. Lowercase с учетом локали (важно для русского языка)
-        clean = clean.toLocaleLowerCase('ru');
+        if (
+            words[this.UNK_ID] !== AdvancedTokenizer.UNK ||
+            words[this.BOS_ID] !== AdvancedTokenizer.BOS ||
+            words[this.EOS_ID] !== AdvancedTokenizer.EOS
+        ) {
+            throw new Error("Serialized vocabulary has incompatible special tokens");
+        }
+
+        // Префиксный индекс и классы выводятся из слов, поэтому просто регистрируем их заново:
+        // ID совпадут, так как слова идут в порядке своих ID
+        this.wordToId = new Map();
+        this.idToWord = [];
+        this.prefixIndex.clear();
+        this.classToId = new Map();
+        this.classOfWord = [];
+        this.classMembers = [];
+        this.contextWords = [];
+        this.contextClasses = [];
+        words.forEach(word => this.registerToken(word));
 
-        // 3. Замена "ё" на "е" (опционально, но рекомендуется для поиска)
-        if (this.config.normalizeYo) {
-            clean = clean.replace(/ё/g, 'е');
+        this.lowercaseCounts = [];
+        for (let id = 0; id < size; id++) {
+            this.lowercaseCounts.push(reader.readVarUint());
         }
 
-        return clean;
+        this.casedForms = new Map();
+        const casedCount = reader.readVarUint();
+        for (let i = 0; i < casedCount; i++) {
+            const id = reader.readVarUint();
+            const formCount = reader.readVarUint();
+            const forms = new Map<string, number>();
+            for (let j = 0; j < formCount; j++) {
+                const form = reader.readString();
+                forms.set(form, reader.readVarUint());
+            }
+            this.casedForms.set(id, forms);
+        }
     }
 
     // Метод для дебага: посмотреть размер словаря
@@ -0,0 +1,36 @@
+// ==========================================
+// Abbreviation Lists
+// ==========================================
+
+/**
+ * Сокращения, точка в которых НЕ означает конец предложения.
+ * Хранятся в нижнем регистре без пробелов: "т. е." в тексте тоже распознается как "т.е.".
+ */
+export const RUSSIAN_ABBREVIATIONS = [
+    'т.е.', 'т.к.', 'т.н.', 'т.ч.', 'т.д.', 'т.п.', 'н.э.',
+    'др.', 'пр.', 'г.', 'гг.', 'в.', 'вв.', 'см.', 'ср.', 'стр.', 'рис.', 'табл.', 'гл.',
+    'им.', 'ул.', 'пер.', 'просп.', 'обл.', 'д.', 'кв.',
+    'тыс.', 'млн.', 'млрд.', 'руб.', 'коп.', 'ок.', 'напр.', 'проф.', 'акад.', 'доц.', 'св.',
+];
+
+export const ENGLISH_ABBREVIATIONS = [
+    'e.g.', 'i.e.', 'etc.', 'vs.', 'cf.', 'approx.', 'no.', 'fig.', 'vol.', 'p.', 'pp.',
+    'mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'st.', 'jr.', 'sr.', 'inc.', 'ltd.', 'co.', 'u.s.', 'a.m.', 'p.m.',
+];
+
+export const DEFAULT_ABBREVIATIONS = [...RUSSIAN_ABBREVIATIONS, ...ENGLISH_ABBREVIATIONS];
+
+/**
+ * Сокращения, которыми предложение МОЖЕТ заканчиваться ("...книги, журналы и т.д. Потом...").
+ * Для них граница ставится, только если следующее слово начинается с заглавной буквы.
+ */
+export const SENTENCE_FINAL_ABBREVIATIONS = [
+    'т.д.', 'т.п.', 'др.', 'пр.', 'г.', 'гг.', 'в.', 'вв.', 'тыс.', 'млн.', 'млрд.', 'руб.', 'коп.',
+    'etc.', 'inc.', 'ltd.', 'co.', 'no.', 'a.m.', 'p.m.',
+];
+
+/**
+ * "Год" и "век" завершают предложение только после числа: "в 1789 г. Революция...", "в XIX в. Россия...".
+ * Перед названием ("г. Москва", "в. Новгород") это не граница, хотя следующее слово с заглавной.
+ */
+export const NUMERIC_ABBREVIATIONS = ['г.', 'в.'];
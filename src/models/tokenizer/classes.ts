@@ -0,0 +1,109 @@
+// ==========================================
+// Token Classes (numbers, dates, URLs, e-mails)
+// ==========================================
+
+import type {Suggestion} from "../interface.ts";
+
+/**
+ * Класс токенов: все совпадения с pattern заменяются в словаре одним токеном `token`.
+ * "в 1917 году" и "в 1905 году" дают одну N-грамму "в <YEAR> году".
+ */
+export interface TokenClass {
+    token: string;
+    pattern: RegExp; // Без флагов и якорей; флаги задает конвейер
+    // Конкретные значения для подсказки. recent — значения класса из набранного текста, последние первыми
+    generate(recent: string[], now: Date): string[];
+}
+
+// Сколько конкретных значений предлагать вместо одного предсказанного класса
+const CLASS_VALUES_LIMIT = 3;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatDate = (date: Date): string =>
+    `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()}`;
+
+// Порядок важен: более специфичные классы раньше ("12.05.2020" — дата, а не три числа)
+export const TOKEN_CLASSES: TokenClass[] = [
+    {
+        token: '<URL>',
+        pattern: /(?:https?:\/\/|www\.)[^\s<>"']*[^\s<>"'.,;:!?)]/u,
+        generate: (recent) => recent,
+    },
+    {
+        token: '<EMAIL>',
+        pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/u,
+        generate: (recent) => recent,
+    },
+    {
+        token: '<DATE>',
+        pattern: /\p{N}{1,2}[./]\p{N}{1,2}[./]\p{N}{4}|\p{N}{4}-\p{N}{2}-\p{N}{2}/u,
+        generate: (recent, now) => [...recent, formatDate(now)],
+    },
+    {
+        token: '<YEAR>',
+        pattern: /1\p{N}{3}|20\p{N}{2}/u,
+        generate: (recent, now) => [...recent, String(now.getFullYear())],
+    },
+    {
+        token: '<NUM>',
+        pattern: /\p{N}+(?:[.,]\p{N}+)?/u,
+        // Число угадать нельзя — предлагаем только уже встречавшиеся в тексте
+        generate: (recent) => recent,
+    },
+];
+
+const CLASS_BY_TOKEN = new Map(TOKEN_CLASSES.map(_ => [_.token, _]));
+
+export const isClassToken = (word: string): boolean => CLASS_BY_TOKEN.has(word);
+
+/**
+ * Конкретные значения для класса `token`, подходящие к недописанному фрагменту.
+ * Недавние значения ищутся в `text` — тексте, который набирает пользователь.
+ */
+export const generateClassValues = (
+    token: string,
+    text: string,
+    fragment: string = '',
+    now: Date = new Date()
+): string[] => {
+    const tokenClass = CLASS_BY_TOKEN.get(token);
+    if (!tokenClass) return [];
+
+    // Значение должно совпадать с классом целиком, а не быть частью более специфичного:
+    // год внутри даты годом не считается
+    const values = Array.from(text.matchAll(new RegExp(scanSource(TOKEN_CLASSES), 'giu')))
+        .map(match => match[0])
+        .filter(value => classify(value) === tokenClass)
+        .reverse();
+
+    const prefix = fragment.toLocaleLowerCase();
+    return [...new Set(tokenClass.generate(values, now))]
+        .filter(value => value !== fragment && value.toLocaleLowerCase().startsWith(prefix))
+        .slice(0, CLASS_VALUES_LIMIT);
+};
+
+/**
+ * Заменяет предсказанный класс конкретными значениями.
+ * Первое значение получает score класса, следующие — все меньшую долю.
+ * Если значений нет (число, которого еще не было в тексте), подсказка пропадает.
+ */
+export const expandClassSuggestion = (suggestion: Suggestion, text: string, fragment: string = ''): Suggestion[] => {
+    if (!isClassToken(suggestion.word)) return [suggestion];
+
+    return generateClassValues(suggestion.word, text, fragment)
+        .map((value, index) => ({...suggestion, word: value, score: suggestion.score / (index + 1)}));
+};
+
+/**
+ * Регулярное выражение, находящее значение любого из классов (по порядку приоритета)
+ * целиком, а не внутри слова или числа.
+ */
+export const scanSource = (classes: TokenClass[]): string =>
+    `(?<![\\p{L}\\p{N}])(?:${classes.map(_ => _.pattern.source).join('|')})(?![\\p{L}\\p{N}])`;
+
+/**
+ * Класс, которому целиком соответствует значение.
+ */
+export const classify = (value: string, classes: TokenClass[] = TOKEN_CLASSES): TokenClass | undefined =>
+    classes.find(_ => new RegExp(`^(?:${_.pattern.source})$`, 'iu').test(value));
@@ -0,0 +1,18 @@
+export {
+    TokenizerPipeline,
+    DEFAULT_WORD_PATTERN,
+    nfcNormalizer,
+    yoNormalizer,
+} from "./pipeline.ts";
+export type {PipelineToken, PipelineTokenKind, TextNormalizer, TokenizerPipelineConfig} from "./pipeline.ts";
+export {AbbreviationAwareSplitter} from "./sentence-splitter.ts";
+export type {ISentenceSplitter} from "./sentence-splitter.ts";
+export {
+    RUSSIAN_ABBREVIATIONS,
+    ENGLISH_ABBREVIATIONS,
+    DEFAULT_ABBREVIATIONS,
+    SENTENCE_FINAL_ABBREVIATIONS,
+    NUMERIC_ABBREVIATIONS,
+} from "./abbreviations.ts";
+export {TOKEN_CLASSES, isClassToken, generateClassValues, expandClassSuggestion, classify} from "./classes.ts";
+export type {TokenClass} from "./classes.ts";
@@ -0,0 +1,66 @@
+import {describe, expect, it} from 'vitest';
+import {TokenizerPipeline} from "./pipeline.ts";
+import {TOKEN_CLASSES} from "./classes.ts";
+
+// Поток токенов в читаемом виде: маркеры предложений — <S> и </S>
+const stream = (pipeline: TokenizerPipeline, text: string): string[] =>
+    pipeline.tokenize(text).map(token => token.kind === 'bos' ? '<S>' : token.kind === 'eos' ? '</S>' : token.text);
+
+describe('TokenizerPipeline', () => {
+    describe('на русском тексте', () => {
+        const pipeline = new TokenizerPipeline();
+
+        it('приводит слова к нижнему регистру и заменяет ё на е', () => {
+            expect(stream(pipeline, 'Ёжик шёл домой.')).toEqual(['<S>', 'ежик', 'шел', 'домой', '</S>']);
+        });
+
+        it('не разбивает предложение на сокращениях внутри него', () => {
+            expect(stream(pipeline, 'Книги, т.е. журналы, и т. п. вещи.'))
+                .toEqual(['<S>', 'книги', 'т.е.', 'журналы', 'и', 'т.п.', 'вещи', '</S>']);
+        });
+
+        it('сохраняет слова через дефис одним токеном', () => {
+            expect(stream(pipeline, 'Кое-что на северо-западе.')).toEqual(['<S>', 'кое-что', 'на', 'северо-западе', '</S>']);
+        });
+
+        it('отбрасывает пунктуацию по умолчанию и сохраняет ее с keepPunctuation', () => {
+            const withPunctuation = new TokenizerPipeline({keepPunctuation: true});
+            expect(stream(withPunctuation, 'Кот, который спит.'))
+                .toEqual(['<S>', 'кот', ',', 'который', 'спит', '.', '</S>']);
+        });
+
+        it('заменяет числа и даты токенами классов', () => {
+            const withClasses = new TokenizerPipeline({tokenClasses: TOKEN_CLASSES});
+            expect(stream(withClasses, 'В 1917 году было 12 месяцев.'))
+                .toEqual(['<S>', 'в', '<YEAR>', 'году', 'было', '<NUM>', 'месяцев', '</S>']);
+        });
+    });
+
+    describe('на английском тексте', () => {
+        const pipeline = new TokenizerPipeline({locale: 'en'});
+
+        it('не разбивает предложение на e.g. и Mr.', () => {
+            expect(stream(pipeline, 'Fruits, e.g. apples, were sold by Mr. Smith.'))
+                .toEqual(['<S>', 'fruits', 'e.g.', 'apples', 'were', 'sold', 'by', 'mr.', 'smith', '</S>']);
+        });
+
+        it('делит предложения на ? и !', () => {
+            expect(stream(pipeline, 'Really? Yes!')).toEqual(['<S>', 'really', '</S>', '<S>', 'yes', '</S>']);
+        });
+    });
+
+    it('без маркеров предложений возвращает только токены', () => {
+        const pipeline = new TokenizerPipeline({sentenceMarkers: false});
+        expect(stream(pipeline, 'Раз. Два.')).toEqual(['раз', 'два']);
+    });
+
+    it('при closeSentence = false не закрывает последнее предложение', () => {
+        const pipeline = new TokenizerPipeline();
+        expect(pipeline.tokenize('Раз. Два', false).map(_ => _.kind))
+            .toEqual(['bos', 'word', 'eos', 'bos', 'word']);
+    });
+
+    it('normalize приводит фрагмент к форме словаря', () => {
+        expect(new TokenizerPipeline().normalize('Ёлка')).toBe('елка');
+    });
+});
@@ -0,0 +1,215 @@
+// ==========================================
+// Tokenizer Pipeline
+// ==========================================
+
+import {DEFAULT_ABBREVIATIONS} from "./abbreviations.ts";
+import {AbbreviationAwareSplitter, type ISentenceSplitter} from "./sentence-splitter.ts";
+import {classify, scanSource, type TokenClass} from "./classes.ts";
+
+export type PipelineTokenKind = 'word' | 'abbreviation' | 'class' | 'terminator' | 'punctuation' | 'bos' | 'eos';
+
+export interface PipelineToken {
+    text: string;  // Нормализованная форма (то, что попадает в словарь)
+    raw: string;   // Исходный фрагмент текста (нужен, например, чтобы проверить заглавную букву)
+    kind: PipelineTokenKind;
+    start: number; // Позиция в тексте после нормализаторов; у маркеров предложений — позиция вставки
+}
+
+/**
+ * Стадия нормализации всего текста до разбиения на токены.
+ * Нормализатор не должен менять регистр: разделителю предложений нужны заглавные буквы.
+ */
+export type TextNormalizer = (text: string) => string;
+
+export const nfcNormalizer: TextNormalizer = (text) => text.normalize('NFC');
+export const yoNormalizer: TextNormalizer = (text) => text.replace(/ё/g, 'е').replace(/Ё/g, 'Е');
+
+/**
+ * Слово: (Буква + (может быть дефис) + Буква) ИЛИ (просто Буквы) ИЛИ (Цифры)
+ * Слова через дефис ("кое-что", "северо-запад") остаются одним токеном.
+ */
+export const DEFAULT_WORD_PATTERN = /(?:\p{L}[\p{L}-]*\p{L})|\p{L}+|\p{N}+/u;
+
+export interface TokenizerPipelineConfig {
+    normalizers: TextNormalizer[];
+    lowercase: boolean;
+    locale: string;
+    wordPattern: RegExp;           // Без флагов; флаги задает конвейер
+    abbreviations: string[];       // В нижнем регистре, с точками: "т.е."
+    tokenClasses: TokenClass[];    // Числа, даты, URL... -> токен класса ("<YEAR>")
+    terminators: string;           // Символы, которые могут завершать предложение
+    splitter: ISentenceSplitter;
+    keepPunctuation: boolean;      // Возвращать ли знаки препинания как токены
+    minWordLength: number;
+    sentenceMarkers: boolean;      // Вставлять ли bos/eos на границах предложений
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\\-]/g, '\\$&');
+
+/**
+ * Конвейер токенизации, общий для всех моделей:
+ * 1. нормализаторы текста (NFC, ё -> е);
+ * 2. сканирование: классы токенов, сокращения, слова (wordPattern), терминаторы, прочая пунктуация;
+ * 3. приведение к нижнему регистру;
+ * 4. разбиение на предложения (splitter) и вставка маркеров bos/eos.
+ */
+export class TokenizerPipeline {
+    private readonly config: TokenizerPipelineConfig;
+    private readonly scanRegex: RegExp;
+
+    constructor(config: Partial<TokenizerPipelineConfig> = {}) {
+        this.config = {
+            normalizers: [nfcNormalizer, yoNormalizer],
+            lowercase: true,
+            locale: 'ru',
+            wordPattern: DEFAULT_WORD_PATTERN,
+            abbreviations: DEFAULT_ABBREVIATIONS,
+            tokenClasses: [],
+            terminators: '.?!;',
+            splitter: new AbbreviationAwareSplitter(),
+            keepPunctuation: false,
+            minWordLength: 1,
+            sentenceMarkers: true,
+            ...config,
+        };
+
+        this.scanRegex = this.buildScanRegex();
+    }
+
+    private buildScanRegex(): RegExp {
+        // Длинные сокращения первыми, чтобы "гг." не распознавалось как "г."
+        // Внутри сокращения допускается пробел: "т. е."
+        const abbreviations = [...this.config.abbreviations]
+            .sort((a, b) => b.length - a.length)
+            .map((abbreviation) => escapeRegExp(abbreviation).replace(/\\\.(?!$)/g, '\\.\\s?'));
+        const abbreviationSource = abbreviations.length ? abbreviations.join('|') : '(?!)';
+        const terminators = this.config.terminators ? `[${escapeRegExp(this.config.terminators)}]` : '(?!)';
+        const tokenClasses = this.config.tokenClasses.length ? scanSource(this.config.tokenClasses) : '(?!)';
+
+        return new RegExp(
+            `(?<tokenClass>${tokenClasses})` +
+            `|(?<![\\p{L}\\p{N}])(?<abbreviation>${abbreviationSource})(?!\\p{L})` +
+            `|(?<word>${this.config.wordPattern.source})` +
+            `|(?<terminator>${terminators})` +
+            `|(?<punctuation>\\S)`,
+            'giu'
+        );
+    }
+
+    /**
+     * Нормализация фрагмента к форме, в которой слова хранятся в словаре.
+     */
+    public normalize(text: string): string {
+        return this.normalizeToken(this.applyNormalizers(text));
+    }
+
+    /**
+     * Разбивает текст на токены.
+     * closeSentence: закрывать ли последнее предложение маркером eos. При false результат
+     * может заканчиваться на bos — текст закончился на границе предложения.
+     */
+    public tokenize(text: string, closeSentence: boolean = true): PipelineToken[] {
+        const tokens = this.scan(this.applyNormalizers(text));
+        const result: PipelineToken[] = [];
+        const markers = this.config.sentenceMarkers;
+
+        const pushMarker = (kind: 'bos' | 'eos', start: number) => {
+            result.push({text: '', raw: '', kind, start});
+        };
+
+        let isSentenceStart = true;
+        if (markers) pushMarker('bos', 0);
+
+        tokens.forEach((token, index) => {
+            switch (token.kind) {
+                case 'word':
+                    if (token.text.length < this.config.minWordLength) return;
+                    result.push(token);
+                    isSentenceStart = false;
+                    return;
+                case 'class':
+                    result.push(token);
+                    isSentenceStart = false;
+                    return;
+                case 'abbreviation':
+                    result.push(token);
+                    isSentenceStart = false;
+                    break;
+                case 'terminator':
+                case 'punctuation':
+                    if (this.config.keepPunctuation) result.push(token);
+                    if (token.kind === 'punctuation') return;
+                    break;
+            }
+
+            // Терминатор или сокращение: возможно, здесь кончается предложение.
+            // Подряд идущие терминаторы ("?!", "...") не порождают пустых предложений.
+            if (markers && !isSentenceStart && this.config.splitter.isBoundary(tokens, index)) {
+                const end = token.start + token.raw.length;
+                pushMarker('eos', end);
+                pushMarker('bos', end);
+                isSentenceStart = true;
+            }
+        });
+
+        if (!markers || !closeSentence) {
+            return result;
+        }
+
+        const last = result[result.length - 1];
+        if (last?.kind === 'bos') {
+            // Текст был пустой или кончился на границе предложения: лишний bos не нужен
+            result.pop();
+        } else if (last && last.kind !== 'eos') {
+            pushMarker('eos', last.start + last.raw.length);
+        }
+
+        return result;
+    }
+
+    private applyNormalizers(text: string): string {
+        return this.config.normalizers.reduce((acc, normalizer) => normalizer(acc), text);
+    }
+
+    private normalizeToken(text: string): string {
+        return this.config.lowercase ? text.toLocaleLowerCase(this.config.locale) : text;
+    }
+
+    private scan(text: string): PipelineToken[] {
+        const tokens: PipelineToken[] = [];
+        this.scanRegex.lastIndex = 0;
+
+        let match: RegExpExecArray | null;
+        while ((match = this.scanRegex.exec(text)) !== null) {
+            const raw = match[0];
+            const groups = match.groups!;
+
+            if (groups.tokenClass !== undefined) {
+                tokens.push({
+                    text: classify(raw, this.config.tokenClasses)!.token,
+                    raw,
+                    kind: 'class',
+                    start: match.index,
+                });
+            } else if (groups.abbreviation !== undefined) {
+                tokens.push({
+                    text: this.normalizeToken(raw.replace(/\s+/g, '')),
+                    raw,
+                    kind: 'abbreviation',
+                    start: match.index,
+                });
+            } else if (groups.word !== undefined) {
+                tokens.push({text: this.normalizeToken(raw), raw, kind: 'word', start: match.index});
+            } else {
+                tokens.push({
+                    text: raw,
+                    raw,
+                    kind: groups.terminator !== undefined ? 'terminator' : 'punctuation',
+                    start: match.index,
+                });
+            }
+        }
+
+        return tokens;
+    }
+}
@@ -0,0 +1,73 @@
+import {describe, expect, it} from 'vitest';
+import {TokenizerPipeline} from "./pipeline.ts";
+
+const pipeline = new TokenizerPipeline({lowercase: false, keepPunctuation: true});
+
+// Текст, разбитый на предложения
+const sentences = (text: string): string[] => {
+    const result: string[] = [];
+    let current: string[] = [];
+    for (const token of pipeline.tokenize(text)) {
+        if (token.kind === 'eos') {
+            result.push(current.join(' '));
+            current = [];
+        } else if (token.kind !== 'bos') {
+            current.push(token.text);
+        }
+    }
+    return result;
+};
+
+describe('AbbreviationAwareSplitter', () => {
+    describe('русский текст', () => {
+        it('завершает предложение на "т.д." перед заглавной буквой', () => {
+            expect(sentences('Книги, журналы и т.д. Потом газеты.'))
+                .toEqual(['Книги , журналы и т.д.', 'Потом газеты .']);
+        });
+
+        it('не завершает предложение на "т.д." перед строчной буквой', () => {
+            expect(sentences('Книги и т.д. были на полке.')).toEqual(['Книги и т.д. были на полке .']);
+        });
+
+        it('завершает предложение на "г." после года', () => {
+            expect(sentences('Это было в 1789 г. Революция началась в Париже.'))
+                .toEqual(['Это было в 1789 г.', 'Революция началась в Париже .']);
+        });
+
+        it('завершает предложение на "в." после века', () => {
+            expect(sentences('Это было в XIX в. Россия менялась.'))
+                .toEqual(['Это было в XIX в.', 'Россия менялась .']);
+        });
+
+        it('не завершает предложение на "г." перед названием города', () => {
+            expect(sentences('Он жил в г. Москва.')).toEqual(['Он жил в г. Москва .']);
+        });
+
+        it('не считает инициалы концом предложения', () => {
+            expect(sentences('Стихи написал А. С. Пушкин.')).toEqual(['Стихи написал А . С . Пушкин .']);
+        });
+
+        it('не делит числа с точкой', () => {
+            expect(sentences('Число 3.14 известно.')).toEqual(['Число 3 . 14 известно .']);
+        });
+    });
+
+    describe('английский текст', () => {
+        it('завершает предложение на "no." перед заглавной буквой', () => {
+            expect(sentences('He said no. Then he left.')).toEqual(['He said no.', 'Then he left .']);
+        });
+
+        it('не завершает предложение на "No." перед номером', () => {
+            expect(sentences('See No. 5 below.')).toEqual(['See No. 5 below .']);
+        });
+
+        it('завершает предложение на "etc." перед заглавной буквой', () => {
+            expect(sentences('Apples, pears, etc. Then we left.'))
+                .toEqual(['Apples , pears , etc.', 'Then we left .']);
+        });
+
+        it('не завершает предложение на "Dr."', () => {
+            expect(sentences('We met Dr. Watson today.')).toEqual(['We met Dr. Watson today .']);
+        });
+    });
+});
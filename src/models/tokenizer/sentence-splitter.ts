@@ -0,0 +1,67 @@
+// ==========================================
+// Sentence Splitter
+// ==========================================
+
+import type {PipelineToken} from "./pipeline.ts";
+import {NUMERIC_ABBREVIATIONS, SENTENCE_FINAL_ABBREVIATIONS} from "./abbreviations.ts";
+
+/**
+ * Решает, заканчивается ли предложение на токене `index`.
+ * Вызывается для знаков-терминаторов и сокращений.
+ */
+export interface ISentenceSplitter {
+    isBoundary(tokens: PipelineToken[], index: number): boolean;
+}
+
+// Арабское или римское число (год, век)
+const NUMBER = /^(?:\p{N}+|[IVXLCDM]+)$/u;
+
+const startsWithUppercase = (token: PipelineToken | undefined): boolean => {
+    if (!token || token.kind !== 'word') return false;
+    const first = token.raw[0];
+    return first !== first.toLocaleLowerCase() && first === first.toLocaleUpperCase();
+};
+
+/**
+ * Разделитель, учитывающий сокращения и инициалы.
+ * - точка вплотную перед словом ("3.14", "example.com") — не граница;
+ * - терминатор после однобуквенного слова с заглавной ("А. С. Пушкин") — инициал, не граница;
+ * - сокращение — граница, только если оно может завершать предложение (т.д., etc.)
+ *   и следующее слово начинается с заглавной; "г." и "в." — еще и только после числа;
+ * - остальные терминаторы — граница.
+ */
+export class AbbreviationAwareSplitter implements ISentenceSplitter {
+    private readonly finalAbbreviations: Set<string>;
+    private readonly numericAbbreviations: Set<string>;
+
+    constructor(
+        finalAbbreviations: string[] = SENTENCE_FINAL_ABBREVIATIONS,
+        numericAbbreviations: string[] = NUMERIC_ABBREVIATIONS,
+    ) {
+        this.finalAbbreviations = new Set(finalAbbreviations);
+        this.numericAbbreviations = new Set(numericAbbreviations);
+    }
+
+    public isBoundary(tokens: PipelineToken[], index: number): boolean {
+        const token = tokens[index];
+
+        if (token.kind === 'abbreviation') {
+            if (this.numericAbbreviations.has(token.text) && !NUMBER.test(tokens[index - 1]?.raw ?? '')) {
+                return false;
+            }
+            return this.finalAbbreviations.has(token.text) && startsWithUppercase(tokens[index + 1]);
+        }
+
+        const next = tokens[index + 1];
+        if (token.raw === '.' && next?.kind === 'word' && next.start === token.start + 1) {
+            return false;
+        }
+
+        const previous = tokens[index - 1];
+        if (token.raw === '.' && previous?.kind === 'word' && Array.from(previous.raw).length === 1) {
+            return !startsWithUppercase(previous);
+        }
+
+        return true;
+    }
+}
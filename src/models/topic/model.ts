@@ -0,0 +1,111 @@
+// ==========================================
+// Topic-aware Reranking
+// ==========================================
+
+import type {IPersistentAutoCompleter, Suggestion, TrainingInput} from "../interface.ts";
+import {BinaryReader, BinaryWriter} from "../serialization/binary.ts";
+import {splitTrailingFragment} from "../fragment.ts";
+import {TriggerIndex} from "./trigger-index.ts";
+
+// Заголовок бинарного формата: сигнатура "TPCM" + версия
+const FORMAT_MAGIC = [0x54, 0x50, 0x43, 0x4d];
+const FORMAT_VERSION = 1;
+
+// Базовая модель выдает больше кандидатов, чем нужно: связанное с темой слово может быть ниже topK
+const RERANK_FACTOR = 3;
+// Сколько последних слов текста задают тему
+const CONTEXT_WORDS = 200;
+
+export interface TopicCompleterOptions {
+    // Насколько сильно связь с темой увеличивает score: score * (1 + weight * relatedness)
+    weight: number;
+}
+
+/**
+ * N-граммная модель видит только два предыдущих слова. Эта обертка переранжирует ее подсказки
+ * по всему набранному тексту: слова, связанные в индексе триггеров со словами текста
+ * ("шахматы", "дебют" -> "ферзь", "гамбит"), поднимаются выше.
+ * relatedness — средний PMI кандидата со словами текста (несвязанные дают 0).
+ */
+export class TopicCompleter implements IPersistentAutoCompleter {
+    private readonly base: IPersistentAutoCompleter;
+    private readonly index: TriggerIndex;
+    private readonly options: TopicCompleterOptions;
+
+    constructor(base: IPersistentAutoCompleter, index: TriggerIndex = new TriggerIndex(), options: Partial<TopicCompleterOptions> = {}) {
+        this.base = base;
+        this.index = index;
+        this.options = {weight: 1, ...options};
+    }
+
+    public train(input: TrainingInput): void {
+        this.base.train(input);
+        this.index.train(input);
+    }
+
+    public predict(context: string, topK: number = 5): Suggestion[] {
+        const suggestions = this.base.predict(context, topK * RERANK_FACTOR);
+        const triggers = this.getTriggers(context);
+        if (triggers.length === 0) return suggestions.slice(0, topK);
+
+        return suggestions
+            .map(suggestion => ({...suggestion, score: this.boost(suggestion.score, triggers, suggestion.word)}))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    public scoreWord(context: string, word: string): number {
+        return this.boost(this.base.scoreWord(context, word), this.getTriggers(context), word);
+    }
+
+    public getVocabulary(): Iterable<string> {
+        return this.base.getVocabulary();
+    }
+
+    /**
+     * Формат: MAGIC | VERSION | длина | сохраненная базовая модель | индекс триггеров.
+     */
+    public save(): ArrayBuffer {
+        const base = new Uint8Array(this.base.save());
+        const writer = new BinaryWriter();
+        FORMAT_MAGIC.forEach(byte => writer.writeUint8(byte));
+        writer.writeUint8(FORMAT_VERSION);
+        writer.writeVarUint(base.length);
+        writer.writeBytes(base);
+        this.index.serialize(writer);
+        return writer.toArrayBuffer();
+    }
+
+    public load(buffer: ArrayBuffer): void {
+        const reader = new BinaryReader(buffer);
+        for (const byte of FORMAT_MAGIC) {
+            if (reader.readUint8() !== byte) {
+                throw new Error("Not a serialized TopicCompleter");
+            }
+        }
+
+        const version = reader.readUint8();
+        if (version !== FORMAT_VERSION) {
+            throw new Error(`Unsupported topic model format version: ${version}`);
+        }
+
+        this.base.load(reader.readBytes(reader.readVarUint()).slice().buffer);
+        this.index.deserialize(reader);
+    }
+
+    // Слова завершенной части текста (недописанное слово тему еще не задает)
+    private getTriggers(context: string): string[] {
+        if (this.index.isEmpty()) return [];
+
+        const {head} = splitTrailingFragment(context);
+        return [...new Set(this.index.keys(head).slice(-CONTEXT_WORDS))];
+    }
+
+    private boost(score: number, triggers: string[], word: string): number {
+        const [key] = this.index.keys(word);
+        if (!key || triggers.length === 0) return score;
+
+        const association = triggers.reduce((sum, trigger) => sum + this.index.getAssociation(trigger, key), 0);
+        return score * (1 + this.options.weight * association / triggers.length);
+    }
+}
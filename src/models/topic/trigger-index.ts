@@ -0,0 +1,198 @@
+// ==========================================
+// Co-occurrence Trigger Index (PMI)
+// ==========================================
+
+import type {TrainingInput} from "../interface.ts";
+import type {BinaryReader, BinaryWriter, ISerializable} from "../serialization/binary.ts";
+import type {IStemmer} from "../morphology/russian-stemmer.ts";
+import {toTrainingDocuments} from "../training.ts";
+import {TokenizerPipeline} from "../tokenizer/index.ts";
+
+export interface TriggerIndexOptions {
+    // Короткие слова (предлоги, союзы) о теме ничего не говорят
+    minWordLength: number;
+    // Соседние строки объединяются в окно, пока в нем меньше стольких слов (короткие строки Markdown)
+    minWindowWords: number;
+    // Длинные строки (текст без переносов) режутся на окна не длиннее этого: число пар растет квадратично
+    maxWindowWords: number;
+    // Слово должно встретиться хотя бы в стольких окнах
+    minCount: number;
+    // Пара должна встретиться хотя бы в стольких окнах: по одной встрече PMI сильно завышен
+    minPairCount: number;
+    // Слова, встречающиеся в большей доле окон, — служебные и тему не задают
+    maxShare: number;
+    // Сколько самых связанных слов хранить для каждого слова
+    maxTriggers: number;
+    // Слова разных форм ("ферзь", "ферзя") считаются одним словом
+    stemmer: IStemmer | null;
+}
+
+/**
+ * Индекс пар-триггеров (Rosenfeld, 1996): слова, которые встречаются в одном абзаце чаще,
+ * чем при независимом появлении. Связь измеряется поточечной взаимной информацией:
+ * PMI(a, b) = log(N * c(a, b) / (c(a) * c(b))), где c — число окон (абзацев) со словом или парой.
+ * Для каждого слова хранятся maxTriggers слов с наибольшим положительным PMI.
+ */
+export class TriggerIndex implements ISerializable {
+    private readonly options: TriggerIndexOptions;
+    private readonly pipeline: TokenizerPipeline;
+    private triggers: Map<string, Map<string, number>> = new Map();
+
+    constructor(options: Partial<TriggerIndexOptions> = {}) {
+        this.options = {
+            minWordLength: 3,
+            minWindowWords: 50,
+            maxWindowWords: 200,
+            minCount: 3,
+            minPairCount: 2,
+            maxShare: 0.3,
+            maxTriggers: 30,
+            stemmer: null,
+            ...options,
+        };
+        this.pipeline = new TokenizerPipeline({lowercase: true, tokenClasses: [], keepPunctuation: false, sentenceMarkers: false});
+    }
+
+    /**
+     * Строит индекс заново. Окна — абзацы документов; вес документа умножает его счетчики.
+     */
+    public train(input: TrainingInput): void {
+        const windows: Array<{words: string[]; weight: number}> = [];
+        for (const {text, weight} of toTrainingDocuments(input)) {
+            this.splitWindows(text).forEach(words => windows.push({words, weight}));
+        }
+
+        // Первый проход: в скольких окнах встречается каждое слово
+        const counts = new Map<string, number>();
+        let total = 0;
+        for (const {words, weight} of windows) {
+            total += weight;
+            words.forEach(word => counts.set(word, (counts.get(word) ?? 0) + weight));
+        }
+
+        const isContent = (word: string) => {
+            const count = counts.get(word)!;
+            return count >= this.options.minCount && count <= this.options.maxShare * total;
+        };
+
+        // Второй проход: пары значимых слов в одном окне
+        const pairs = new Map<string, Map<string, number>>();
+        for (const {words, weight} of windows) {
+            const content = words.filter(isContent);
+            for (let i = 0; i < content.length; i++) {
+                for (let j = 0; j < content.length; j++) {
+                    if (i === j) continue;
+                    const related = pairs.get(content[i]) ?? new Map<string, number>();
+                    related.set(content[j], (related.get(content[j]) ?? 0) + weight);
+                    pairs.set(content[i], related);
+                }
+            }
+        }
+
+        this.triggers = new Map();
+        for (const [word, related] of pairs) {
+            const scored = [...related]
+                .filter(([, count]) => count >= this.options.minPairCount)
+                .map(([other, count]) => [other, Math.log(total * count / (counts.get(word)! * counts.get(other)!))] as const)
+                .filter(([, pmi]) => pmi > 0)
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, this.options.maxTriggers);
+
+            if (scored.length) this.triggers.set(word, new Map(scored));
+        }
+    }
+
+    /**
+     * Ключи слов текста в том виде, в каком они хранятся в индексе (нижний регистр, основа).
+     */
+    public keys(text: string): string[] {
+        return this.pipeline.tokenize(text, false)
+            .filter(token => token.kind === 'word' && Array.from(token.text).length >= this.options.minWordLength)
+            .map(token => this.options.stemmer ? this.options.stemmer.stem(token.text) : token.text);
+    }
+
+    /**
+     * PMI пары (0, если слова не связаны). Оба слова — ключи индекса (см. keys).
+     */
+    public getAssociation(trigger: string, word: string): number {
+        return this.triggers.get(trigger)?.get(word) ?? 0;
+    }
+
+    public getTriggers(word: string): ReadonlyMap<string, number> {
+        return this.triggers.get(word) ?? new Map();
+    }
+
+    public isEmpty(): boolean {
+        return this.triggers.size === 0;
+    }
+
+    /**
+     * Формат: K | K x слово | M | M x (id слова, T, T x (id связанного, PMI float64)).
+     * Слова пишутся один раз, связи ссылаются на них по номеру.
+     */
+    public serialize(writer: BinaryWriter): void {
+        const ids = new Map<string, number>();
+        for (const [word, related] of this.triggers) {
+            [word, ...related.keys()].forEach(_ => {
+                if (!ids.has(_)) ids.set(_, ids.size);
+            });
+        }
+
+        writer.writeVarUint(ids.size);
+        ids.forEach((_, word) => writer.writeString(word));
+
+        writer.writeVarUint(this.triggers.size);
+        for (const [word, related] of this.triggers) {
+            writer.writeVarUint(ids.get(word)!);
+            writer.writeVarUint(related.size);
+            for (const [other, pmi] of related) {
+                writer.writeVarUint(ids.get(other)!);
+                writer.writeFloat64(pmi);
+            }
+        }
+    }
+
+    public deserialize(reader: BinaryReader): void {
+        const words: string[] = [];
+        const size = reader.readVarUint();
+        for (let i = 0; i < size; i++) {
+            words.push(reader.readString());
+        }
+
+        this.triggers = new Map();
+        const count = reader.readVarUint();
+        for (let i = 0; i < count; i++) {
+            const word = words[reader.readVarUint()];
+            const related = new Map<string, number>();
+            const relatedCount = reader.readVarUint();
+            for (let j = 0; j < relatedCount; j++) {
+                related.set(words[reader.readVarUint()], reader.readFloat64());
+            }
+            this.triggers.set(word, related);
+        }
+    }
+
+    // Окна — строки текста; короткие соседние строки объединяются. Слова в окне уникальны
+    private splitWindows(text: string): string[][] {
+        const windows: string[][] = [];
+        let current = new Set<string>();
+        let length = 0;
+
+        const flush = () => {
+            if (current.size) windows.push([...current]);
+            current = new Set();
+            length = 0;
+        };
+
+        for (const line of text.split(/\n+/)) {
+            for (const word of this.keys(line)) {
+                current.add(word);
+                if (++length >= this.options.maxWindowWords) flush();
+            }
+            if (length >= this.options.minWindowWords) flush();
+        }
+        flush();
+
+        return windows;
+    }
+}
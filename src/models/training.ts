@@ -0,0 +1,19 @@
+import type {TrainingDocument, TrainingInput} from "./interface.ts";
+
+export type WeightedDocument = TrainingDocument & {weight: number};
+
+/**
+ * Приводит вход train() к списку документов с явным весом.
+ * Некорректный вес — ошибка: нулевой или отрицательный счетчик сломает вероятности.
+ */
+export const toTrainingDocuments = (input: TrainingInput): WeightedDocument[] => {
+    const documents = typeof input === 'string' ? [{text: input}] : input;
+
+    return documents.map(document => {
+        const weight = document.weight ?? 1;
+        if (!Number.isFinite(weight) || weight <= 0) {
+            throw new Error(`Invalid training weight ${weight} for source ${document.source ?? '<unnamed>'}`);
+        }
+        return {...document, weight};
+    });
+};
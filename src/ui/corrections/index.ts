@@ -0,0 +1,76 @@
+import {copyTextareaStyle} from "../style";
+import type {Correction} from "../../models/spelling/corrector.ts";
+
+/**
+ * Слой под textarea, повторяющий его текст прозрачным шрифтом.
+ * Слова с найденными ошибками оборачиваются в span с волнистым подчеркиванием —
+ * так подчеркивание оказывается ровно под словом в textarea.
+ */
+export class CorrectionsOverlay {
+    private readonly textarea: HTMLTextAreaElement;
+    private readonly overlayEl: HTMLDivElement;
+
+    constructor(textarea: HTMLTextAreaElement, wrapper: HTMLDivElement) {
+        this.textarea = textarea;
+        this.overlayEl = this.createOverlay();
+        wrapper.appendChild(this.overlayEl);
+
+        copyTextareaStyle(this.textarea, this.overlayEl);
+        // div по умолчанию схлопывает пробелы и переносы, textarea — нет
+        this.overlayEl.style.whiteSpace = 'pre-wrap';
+        this.watchTextarea();
+    }
+
+    /** Перерисовывает текст с подчеркнутыми ошибками */
+    public render(text: string, corrections: Correction[]): void {
+        this.overlayEl.replaceChildren();
+
+        let offset = 0;
+        for (const correction of [...corrections].sort((a, b) => a.start - b.start)) {
+            if (correction.start < offset) continue;
+
+            this.overlayEl.append(text.slice(offset, correction.start));
+
+            const mark = document.createElement('span');
+            mark.textContent = text.slice(correction.start, correction.end);
+            mark.style.textDecoration = 'underline wavy red';
+            mark.style.textDecorationSkipInk = 'none';
+            this.overlayEl.appendChild(mark);
+
+            offset = correction.end;
+        }
+
+        // Пробел в конце, чтобы завершающий перенос строки тоже занял место, как в textarea
+        this.overlayEl.append(text.slice(offset) + ' ');
+        this.overlayEl.scrollTop = this.textarea.scrollTop;
+    }
+
+    private createOverlay(): HTMLDivElement {
+        const overlayEl = document.createElement('div');
+        overlayEl.style.position = 'absolute';
+        overlayEl.style.top = '0';
+        overlayEl.style.left = '0';
+        overlayEl.style.color = 'transparent';
+        overlayEl.style.overflow = 'hidden';
+        overlayEl.style.pointerEvents = 'none';
+        overlayEl.style.zIndex = '0';
+        return overlayEl;
+    }
+
+    /** Синхронизирует стили и прокрутку с textarea */
+    private watchTextarea(): void {
+        const observer = new MutationObserver(() => {
+            copyTextareaStyle(this.textarea, this.overlayEl);
+            this.overlayEl.style.whiteSpace = 'pre-wrap';
+        });
+
+        observer.observe(this.textarea, {
+            attributes: true,
+            attributeFilter: ['style', 'class']
+        });
+
+        this.textarea.addEventListener('scroll', () => {
+            this.overlayEl.scrollTop = this.textarea.scrollTop;
+        });
+    }
+}
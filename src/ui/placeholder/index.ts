@@ -1,3 +1,5 @@
+import {copyTextareaStyle} from "../style";
+
 export class PersistentPlaceholder {
     private readonly textarea: HTMLTextAreaElement;
     private placeholderEl!: HTMLTextAreaElement;
@@ -17,20 +19,7 @@ export class PersistentPlaceholder {
 
 
     public copyStyleFromTextarea(source: HTMLTextAreaElement, target: HTMLTextAreaElement): void  {
-        const computedStyle = getComputedStyle(source);
-        target.style.fontFamily = computedStyle.fontFamily;
-        target.style.fontSize = computedStyle.fontSize;
-        target.style.padding = computedStyle.padding;
-        target.style.boxSizing = computedStyle.boxSizing;
-        target.style.lineHeight = computedStyle.lineHeight;
-        target.style.textAlign = computedStyle.textAlign;
-        target.style.letterSpacing = computedStyle.letterSpacing;
-        target.style.wordSpacing = computedStyle.wordSpacing;
-        target.style.border = computedStyle.border;
-        target.style.width = computedStyle.width;
-        target.style.height = computedStyle.height;
-        target.style.whiteSpace = computedStyle.whiteSpace;
-        target.style.overflowWrap = computedStyle.overflowWrap;
+        copyTextareaStyle(source, target);
     }
 
     /**
@@ -0,0 +1,20 @@
+/**
+ * Копирует стили, влияющие на раскладку текста, чтобы слой поверх/под textarea
+ * совпадал с ним символ в символ.
+ */
+export const copyTextareaStyle = (source: HTMLTextAreaElement, target: HTMLElement): void => {
+    const computedStyle = getComputedStyle(source);
+    target.style.fontFamily = computedStyle.fontFamily;
+    target.style.fontSize = computedStyle.fontSize;
+    target.style.padding = computedStyle.padding;
+    target.style.boxSizing = computedStyle.boxSizing;
+    target.style.lineHeight = computedStyle.lineHeight;
+    target.style.textAlign = computedStyle.textAlign;
+    target.style.letterSpacing = computedStyle.letterSpacing;
+    target.style.wordSpacing = computedStyle.wordSpacing;
+    target.style.border = computedStyle.border;
+    target.style.width = computedStyle.width;
+    target.style.height = computedStyle.height;
+    target.style.whiteSpace = computedStyle.whiteSpace;
+    target.style.overflowWrap = computedStyle.overflowWrap;
+}
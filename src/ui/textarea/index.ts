@@ -1,16 +1,32 @@
 import {PersistentPlaceholder} from "../placeholder";
+import {splitTrailingFragment} from "../../models/fragment.ts";
+import type {Suggestion} from "../../models/interface.ts";
+import {CorrectionsOverlay} from "../corrections";
+import type {Correction} from "../../models/spelling/corrector.ts";
+
+// Конец предложения или строки: набранный до него текст считается завершенным
+const COMMIT_BOUNDARY = /[.!?…]+\s|\n/g
 
 export class Textarea {
     private readonly textarea: HTMLTextAreaElement;
     private textareaPlaceHolder: PersistentPlaceholder;
     private readonly wrapper: HTMLDivElement;
     private suggestionBox!: HTMLDivElement;
+    private correctionHint!: HTMLButtonElement;
+    private correctionsOverlay: CorrectionsOverlay;
+    private corrections: Correction[] = [];
     private value: string;
-    private lastSuggestion: string;
+    private lastSuggestion: Suggestion | null;
     private subscribtions: Array<(v: string) => void> = [];
+    private acceptSubscribtions: Array<(suggestion: Suggestion, text: string) => void> = [];
+    private commitSubscribtions: Array<(text: string, replaced: string) => void> = [];
+    // Текст до этой позиции уже передан подписчикам onCommit
+    private committed = 0;
+    // Переданный раньше текст, который отредактировали: его заменит следующий commit
+    private retracted = '';
 
     constructor(wrapper: HTMLElement) {
-        this.lastSuggestion = ''
+        this.lastSuggestion = null
         this.textarea = document.createElement('textarea')
         this.textarea.style.zIndex = '1'
         this.textarea.style.position = 'relative'
@@ -28,6 +44,7 @@ export class Textarea {
         this.wrapper.appendChild(this.textarea)
         wrapper.appendChild(this.wrapper)
         this.textareaPlaceHolder = new PersistentPlaceholder(this.textarea, this.wrapper)
+        this.correctionsOverlay = new CorrectionsOverlay(this.textarea, this.wrapper)
         this.init()
     }
 
@@ -42,18 +59,38 @@ export class Textarea {
                     const start = this.textarea.selectionStart;
                     const end = this.textarea.selectionEnd;
 
-                    const padding = this.value[this.value.length - 1] === ' ' ? '' : ' '
-                    const value = this.textarea.value.substring(0, start) + padding + this.lastSuggestion + this.textarea.value.substring(end);
+                    const before = this.applySuggestion(this.textarea.value.substring(0, start), this.lastSuggestion)
+                    const value = before + this.textarea.value.substring(end);
 
                     this.textarea.value = value
+                    this.textarea.selectionStart = this.textarea.selectionEnd = before.length
+                    const suggestion = this.lastSuggestion
+                    this.acceptSubscribtions.forEach((cb) => cb(suggestion, before))
                     this.updateValue(value)
                 }
+            }
+
+            // Ctrl+. — применить исправление слова под курсором (или ближайшего перед ним)
+            if (e.code === 'Period' && (e.ctrlKey || e.metaKey)) {
+                const correction = this.findCorrectionNearCaret()
+                if (correction) {
+                    e.preventDefault()
+                    this.applyCorrection(correction)
+                }
             }})
 
         this.createSuggestionBox()
+        this.createCorrectionHint()
         this.getElement().addEventListener('input', (e: Event) => {
             this.updateValue((e.target as HTMLTextAreaElement).value)
         })
+
+        // Клик или перемещение курсора внутрь подчеркнутого слова показывает исправление
+        this.getElement().addEventListener('click', () => this.updateCorrectionHint())
+        this.getElement().addEventListener('keyup', () => this.updateCorrectionHint())
+
+        // Ушли из поля — недописанное предложение тоже считаем завершенным
+        this.getElement().addEventListener('blur', () => this.commit(this.value.length))
     }
 
     public getElement() {
@@ -79,13 +116,78 @@ export class Textarea {
         return this.suggestionBox
     }
 
-    public setSuggestions(suggestions: string[]) {
+    private createCorrectionHint() {
+        this.correctionHint = document.createElement('button')
+        this.correctionHint.type = 'button'
+        this.correctionHint.style.position = 'absolute'
+        this.correctionHint.style.bottom = '0'
+        this.correctionHint.style.right = '0'
+        this.correctionHint.style.zIndex = '3'
+        this.correctionHint.style.fontSize = '14px'
+        this.correctionHint.style.lineHeight = '1.2'
+        this.correctionHint.style.display = 'none'
+        this.wrapper.appendChild(this.correctionHint)
+        return this.correctionHint
+    }
+
+    /**
+     * Показывает найденные ошибки: подчеркивание под словами и подсказку для слова под курсором.
+     */
+    public setCorrections(corrections: Correction[]) {
+        // Проверка могла завершиться после того, как текст изменился — устаревшие позиции отбрасываем
+        this.corrections = corrections.filter((_) => this.value.slice(_.start, _.end) === _.word)
+        this.correctionsOverlay.render(this.value, this.corrections)
+        this.updateCorrectionHint()
+    }
+
+    private updateCorrectionHint() {
+        const caret = this.textarea.selectionStart
+        const correction = this.corrections.find((_) => _.start <= caret && caret <= _.end)
+
+        if (!correction) {
+            this.correctionHint.style.display = 'none'
+            this.correctionHint.onclick = null
+            return
+        }
+
+        this.correctionHint.textContent = `${correction.word} → ${correction.replacement} (Ctrl+.)`
+        this.correctionHint.style.display = 'block'
+        this.correctionHint.onclick = () => {
+            this.applyCorrection(correction)
+            this.textarea.focus()
+        }
+    }
+
+    private findCorrectionNearCaret(): Correction | undefined {
+        const caret = this.textarea.selectionStart
+        const before = this.corrections.filter((_) => _.start <= caret)
+        return before.find((_) => caret <= _.end) ?? before[before.length - 1]
+    }
+
+    private applyCorrection(correction: Correction) {
+        const value = this.textarea.value
+        if (value.slice(correction.start, correction.end) !== correction.word) return
+
+        const caret = this.textarea.selectionStart
+        const delta = correction.replacement.length - correction.word.length
+        const next = value.slice(0, correction.start) + correction.replacement + value.slice(correction.end)
+
+        this.textarea.value = next
+        // Курсор после исправленного слова остается на своем месте относительно текста
+        const position = caret >= correction.end ? caret + delta : Math.min(caret, correction.start + correction.replacement.length)
+        this.textarea.selectionStart = this.textarea.selectionEnd = position
+
+        this.corrections = this.corrections.filter((_) => _ !== correction)
+        this.updateValue(next)
+    }
+
+    public setSuggestions(suggestions: Suggestion[]) {
         this.suggestionBox.innerHTML = '' // Очищаем предыдущие предложения
 
         suggestions.forEach((suggest) => {
             // Добавляем предложения в suggestionBox
             const box = document.createElement('div')
-            box.textContent = suggest
+            box.textContent = suggest.word
             this.suggestionBox.appendChild(box)
         })
 
@@ -94,21 +196,117 @@ export class Textarea {
             const first = suggestions[0]
             this.lastSuggestion = first
 
-            const padding = this.value[this.value.length - 1] === ' ' ? '' : ' '
-            this.textareaPlaceHolder.setPlaceholder(this.value + `${padding}${first}`)
+            // Серый "призрачный" текст имеет смысл, только если подсказка дописывает текст,
+            // а не исправляет уже введенное. Отличие только в регистре ("моск" -> "Москва")
+            // не мешает: показываем набранное как есть и недостающий суффикс
+            const next = this.applySuggestion(this.value, first)
+            const continues = this.normalize(next).startsWith(this.normalize(this.value))
+            this.textareaPlaceHolder.setPlaceholder(continues ? this.value + next.slice(this.value.length) : '')
         }else {
+            this.lastSuggestion = null
             this.textareaPlaceHolder.setPlaceholder('')
             this.suggestionBox.style.display = 'none' // Скрыт по умолчанию
         }
     }
 
+    /**
+     * Текст `before` после принятия подсказки.
+     * - исправление (replace) заменяет недописанное слово целиком (или replaces, если он задан);
+     * - если подсказка продолжает недописанное слово — слово заменяется подсказкой,
+     *   чтобы применить ее регистр ("моск" -> "Москва");
+     * - знак препинания (attach) пишется вплотную к предыдущему слову;
+     * - иначе подсказка вставляется как следующее слово через пробел.
+     */
+    private applySuggestion(before: string, suggestion: Suggestion): string {
+        if (suggestion.attach) {
+            return before.replace(/[ \t]+$/, '') + suggestion.word
+        }
+
+        const {head, fragment} = splitTrailingFragment(before)
+
+        if (suggestion.replace) {
+            const replaced = suggestion.replaces ?? fragment
+            if (replaced && before.endsWith(replaced)) {
+                return before.slice(0, before.length - replaced.length) + suggestion.word
+            }
+        }
+
+        if (fragment && this.normalize(suggestion.word).startsWith(this.normalize(fragment))) {
+            return head + suggestion.word
+        }
+
+        const padding = before === '' || /\s$/.test(before) ? '' : ' '
+        return before + padding + suggestion.word
+    }
+
+    // Модели хранят слова в нижнем регистре и с "е" вместо "ё"
+    private normalize(text: string): string {
+        return text.toLocaleLowerCase().replace(/ё/g, 'е')
+    }
+
     private updateValue(v: string) {
+        // Уже переданный текст изменили — откатываемся к началу измененного предложения
+        // и передаем его заново целиком: хвост слова ("мир" -> "миру" дало бы "у") — не текст
+        const changed = this.commonPrefixLength(this.value, v)
+        if (changed < this.committed) {
+            const start = this.sentenceStart(v, changed)
+            this.retracted = this.value.slice(start, this.committed) + this.retracted
+            this.committed = start
+        }
         this.value = v
+        // Позиции найденных ошибок относятся к старому тексту
+        this.setCorrections(this.corrections)
         this.subscribtions.forEach((cb) => cb(v))
+
+        let boundary = this.committed
+        for (const match of v.slice(this.committed).matchAll(COMMIT_BOUNDARY)) {
+            boundary = this.committed + match.index + match[0].length
+        }
+        this.commit(boundary)
+    }
+
+    private commit(end: number) {
+        const text = this.value.slice(this.committed, end)
+        const replaced = this.retracted
+        if (!text.trim() && !replaced.trim()) return
+
+        this.committed = end
+        this.retracted = ''
+        this.commitSubscribtions.forEach((cb) => cb(text, replaced))
+    }
+
+    // Начало предложения, в которое попадает позиция: конец последней границы перед ней
+    private sentenceStart(text: string, position: number): number {
+        let start = 0
+        for (const match of text.slice(0, position).matchAll(COMMIT_BOUNDARY)) {
+            start = match.index + match[0].length
+        }
+        return start
+    }
+
+    private commonPrefixLength(a: string, b: string): number {
+        let i = 0
+        while (i < a.length && i < b.length && a[i] === b[i]) i++
+        return i
     }
 
     public onInput(callback: (v: string) => void) {
         this.subscribtions.push(callback)
     }
 
+    /**
+     * Пользователь принял подсказку (Tab). text — текст до курсора вместе с подсказкой.
+     */
+    public onAccept(callback: (suggestion: Suggestion, text: string) => void) {
+        this.acceptSubscribtions.push(callback)
+    }
+
+    /**
+     * Пользователь завершил предложение или ушел из поля. text — новый завершенный текст,
+     * replaced — переданный раньше текст, который он заменяет после правки ('' если правок не было).
+     */
+    public onCommit(callback: (text: string, replaced: string) => void) {
+        this.commitSubscribtions.push(callback)
+    }
+
 }
\ No newline at end of file